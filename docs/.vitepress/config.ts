@@ -94,6 +94,10 @@ export default defineConfig({
               text: "Keycloak Deployment",
               link: "/guide/deployment/keycloak-deployment",
             },
+            {
+              text: "LDAP Deployment",
+              link: "/guide/deployment/ldap-deployment",
+            },
             {
               text: "Helm Deployment",
               link: "/guide/deployment/helm-deployment",
@@ -215,6 +219,7 @@ export default defineConfig({
             },
             { text: "KeycloakHelper", link: "/api/deployment/keycloak-helper" },
             { text: "Keycloak Types", link: "/api/deployment/keycloak-types" },
+            { text: "LdapHelper", link: "/api/deployment/ldap-helper" },
             { text: "installOrchestrator", link: "/api/deployment/orchestrator" },
           ],
         },
@@ -275,6 +280,8 @@ export default defineConfig({
             { text: "YAML Merging", link: "/api/utils/merge-yamls" },
             { text: "envsubst", link: "/api/utils/common" },
             { text: "Plugin Metadata", link: "/api/utils/plugin-metadata" },
+            { text: "Registry Client", link: "/api/utils/registry-client" },
+            { text: "Registry Mirror", link: "/api/utils/registry-mirror" },
           ],
         },
         {
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+/**
+ * Lint workspace metadata before CI does.
+ *
+ *   rhdh-lint-metadata [path...]
+ *
+ * Each path is a metadata directory or a YAML file; the default is
+ * ../metadata, as seen from a workspace's e2e-tests directory. Exits with 1
+ * when an issue is found.
+ */
+import fs from "fs";
+import path from "path";
+import { glob } from "zx";
+import {
+  formatMetadataIssues,
+  lintMetadataFiles,
+} from "../utils/metadata-lint.js";
+import { DEFAULT_METADATA_PATH } from "../utils/plugin-metadata.js";
+
+/**
+ * Every file argument and the `*.yaml` files of every directory argument, in
+ * one list so package names duplicated across arguments are found too.
+ */
+async function metadataFiles(paths: string[]): Promise<string[]> {
+  const files = new Map<string, string>();
+  for (const p of paths) {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(p);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`[MetadataLint] path not found: ${p}`, {
+          cause: error,
+        });
+      }
+      throw error;
+    }
+    const matches = stats.isFile()
+      ? [p]
+      : (await glob(path.join(p, "*.yaml"))).sort();
+    for (const file of matches) {
+      if (!files.has(path.resolve(file))) files.set(path.resolve(file), file);
+    }
+  }
+  return [...files.values()];
+}
+
+async function main(paths: string[]): Promise<number> {
+  if (paths.includes("--help") || paths.includes("-h")) {
+    console.log("Usage: rhdh-lint-metadata [metadata-dir | file.yaml]...");
+    return 0;
+  }
+
+  const issues = await lintMetadataFiles(
+    await metadataFiles(paths.length > 0 ? paths : [DEFAULT_METADATA_PATH]),
+  );
+  if (issues.length === 0) {
+    console.log("[MetadataLint] No issues found");
+    return 0;
+  }
+  console.error(formatMetadataIssues(issues));
+  console.error(`[MetadataLint] ${issues.length} issue(s) found`);
+  return 1;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error: Error) => {
+    console.error(error.message);
+    process.exit(2);
+  },
+);
@@ -1,6 +1,16 @@
 import KeycloakAdminClient from "@keycloak/keycloak-admin-client";
 import { KubernetesClientHelper } from "../../utils/kubernetes-client.js";
 import { $, runQuietUnlessFailure } from "../../utils/bash.js";
+import { isOpenShift } from "../../utils/cluster-flavor.js";
+import {
+  formatMirrorReport,
+  getRegistryMirror,
+  splitImageRef,
+} from "../../utils/registry-mirror.js";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import yaml from "js-yaml";
 import {
   DEFAULT_KEYCLOAK_CONFIG,
   BITNAMI_CHART_REPO,
@@ -461,17 +471,80 @@ export class KeycloakHelper {
   }
 
   private async _deployWithHelm(): Promise<void> {
-    await $`helm repo add bitnami ${BITNAMI_CHART_REPO} || true`;
+    const mirror = getRegistryMirror();
+    const chartRepo = mirror.rewrite(BITNAMI_CHART_REPO, "keycloak chart");
+    // --force-update so a changed mirror replaces a previously added repo URL
+    await $`helm repo add bitnami ${chartRepo} --force-update || true`;
     await runQuietUnlessFailure`helm repo update`;
 
+    const mirrorValues = this._buildMirrorValues();
     await runQuietUnlessFailure`helm upgrade --install ${this.deploymentConfig.releaseName} ${BITNAMI_CHART_NAME} \
       --namespace ${this.deploymentConfig.namespace} \
-      --values ${this.deploymentConfig.valuesFile}`;
+      --values ${this.deploymentConfig.valuesFile} \
+      ${mirrorValues ? ["--values", mirrorValues] : []}`;
+
+    const rewrites = mirror.rewrites.filter((r) =>
+      r.context.startsWith("keycloak"),
+    );
+    if (rewrites.length > 0) {
+      this._log(`Registry mirror rewrites:\n${formatMirrorReport(rewrites)}`);
+    }
 
     await this.waitUntilReady();
   }
 
+  /**
+   * Values file overriding the Keycloak and PostgreSQL images with their
+   * mirrored locations, or null when no mirror rule applies.
+   */
+  private _buildMirrorValues(): string | null {
+    const mirror = getRegistryMirror();
+    if (!mirror.enabled) return null;
+
+    type ImageValues = { registry?: string; repository?: string; tag?: string };
+    const values = (yaml.load(
+      fs.readFileSync(this.deploymentConfig.valuesFile, "utf-8"),
+    ) ?? {}) as { image?: ImageValues; postgresql?: { image?: ImageValues } };
+
+    const mirrored = (image: ImageValues | undefined, context: string) => {
+      if (!image?.registry || !image.repository) return undefined;
+      const ref = `${image.registry}/${image.repository}:${image.tag ?? "latest"}`;
+      const rewritten = mirror.rewrite(ref, context);
+      return rewritten === ref ? undefined : splitImageRef(rewritten);
+    };
+    const image = mirrored(values.image, "keycloak image");
+    const postgresImage = mirrored(
+      values.postgresql?.image,
+      "keycloak postgresql image",
+    );
+    if (!image && !postgresImage) return null;
+
+    const file = path.join(
+      os.tmpdir(),
+      `${this.deploymentConfig.releaseName}-mirror-values.yaml`,
+    );
+    fs.writeFileSync(
+      file,
+      yaml.dump({
+        ...(image ? { image } : {}),
+        ...(postgresImage ? { postgresql: { image: postgresImage } } : {}),
+      }),
+    );
+    return file;
+  }
+
   private async _createRoute(): Promise<void> {
+    if (!isOpenShift()) {
+      // Plain Kubernetes: expose via Ingress on the configured base domain
+      await this.k8sClient.applyIngress(
+        this.deploymentConfig.namespace,
+        this.deploymentConfig.releaseName,
+        `${this.deploymentConfig.releaseName}-${this.deploymentConfig.namespace}.${process.env.K8S_CLUSTER_ROUTER_BASE}`,
+        { name: this.deploymentConfig.releaseName, port: "http" },
+      );
+      return;
+    }
+
     // Use plain HTTP route (no TLS) for test environments to avoid self-signed certificate issues
     const routeManifest = `
 apiVersion: route.openshift.io/v1
@@ -496,12 +569,22 @@ spec:
   }
 
   async getRouteLocation(): Promise<string> {
+    if (!isOpenShift()) {
+      return await this.k8sClient.getIngressLocation(
+        this.deploymentConfig.namespace,
+        this.deploymentConfig.releaseName,
+      );
+    }
     return await this.k8sClient.getRouteLocation(
       this.deploymentConfig.namespace,
       this.deploymentConfig.releaseName,
     );
   }
 
+  /**
+   * Pods are already ready at this point (see `_deployWithHelm`), so this only
+   * waits for the route/ingress to serve the API and can poll tightly.
+   */
   private async _waitForKeycloak(): Promise<void> {
     this._log("Waiting for Keycloak API to be ready...");
 
@@ -517,8 +600,7 @@ spec:
         throw new Error(`Keycloak API not ready after ${timeout} seconds`);
       }
 
-      await new Promise((resolve) => setTimeout(resolve, 5000));
-      this._log("  Waiting for Keycloak API to be ready...");
+      await new Promise((resolve) => setTimeout(resolve, 1000));
     }
   }
 
@@ -0,0 +1,50 @@
+import path from "path";
+import type { LdapGroupConfig, LdapUserConfig } from "./types.js";
+
+// Navigate from dist/deployment/ldap/ to package root
+const PACKAGE_ROOT = path.resolve(import.meta.dirname, "../../..");
+
+export const DEFAULT_LDAP_CONFIG = {
+  namespace: "rhdh-ldap",
+  name: "openldap",
+  image: "docker.io/bitnamilegacy/openldap:2.6.10-debian-12-r4",
+  baseDn: "dc=rhdh,dc=test",
+  adminPassword: "admin123",
+};
+
+export const LDAP_MANIFEST_PATH = path.join(
+  PACKAGE_ROOT,
+  "dist/deployment/ldap/config/openldap.yaml",
+);
+
+/** Port of the Bitnami image's non-root LDAP listener. */
+export const LDAP_PORT = 1389;
+
+/** Organizational units users and groups are created under. */
+export const LDAP_USERS_OU = "people";
+export const LDAP_GROUPS_OU = "groups";
+
+export const DEFAULT_LDAP_GROUPS: LdapGroupConfig[] = [
+  { name: "developers" },
+  { name: "admins" },
+  { name: "viewers" },
+];
+
+export const DEFAULT_LDAP_USERS: LdapUserConfig[] = [
+  {
+    username: "test1",
+    email: "test1@example.com",
+    firstName: "Test",
+    lastName: "User1",
+    password: "test1@123",
+    groups: ["developers"],
+  },
+  {
+    username: "test2",
+    email: "test2@example.com",
+    firstName: "Test",
+    lastName: "User2",
+    password: "test2@123",
+    groups: ["developers"],
+  },
+];
@@ -0,0 +1,435 @@
+import fs from "fs";
+import { KubernetesClientHelper } from "../../utils/kubernetes-client.js";
+import { $ } from "../../utils/bash.js";
+import { envsubst } from "../../utils/common.js";
+import { getRegistryMirror } from "../../utils/registry-mirror.js";
+import {
+  DEFAULT_LDAP_CONFIG,
+  DEFAULT_LDAP_GROUPS,
+  DEFAULT_LDAP_USERS,
+  LDAP_GROUPS_OU,
+  LDAP_MANIFEST_PATH,
+  LDAP_PORT,
+  LDAP_USERS_OU,
+} from "./constants.js";
+import {
+  formatLdif,
+  groupDn,
+  groupEntry,
+  memberChange,
+  parseLdif,
+  userDn,
+  userEntry,
+  type LdifEntry,
+} from "./ldif.js";
+import type {
+  LdapDeploymentConfig,
+  LdapDeploymentOptions,
+  LdapGroupConfig,
+  LdapUserConfig,
+} from "./types.js";
+
+// ldap-utils exit codes
+const ALREADY_EXISTS = 68;
+const NO_SUCH_OBJECT = 32;
+const VALUE_EXISTS = 20;
+
+type LdapResult = { exitCode: number; stdout: string; stderr: string };
+
+export class LdapHelper {
+  public k8sClient = new KubernetesClientHelper();
+  public deploymentConfig: LdapDeploymentConfig;
+
+  constructor(options: LdapDeploymentOptions = {}) {
+    this.deploymentConfig = this._buildDeploymentConfig(options);
+  }
+
+  /** In-cluster URL of the directory, as RHDH reaches it. */
+  get url(): string {
+    const { name, namespace } = this.deploymentConfig;
+    return `ldap://${name}.${namespace}.svc.cluster.local:${LDAP_PORT}`;
+  }
+
+  get bindDn(): string {
+    return `cn=admin,${this.deploymentConfig.baseDn}`;
+  }
+
+  /**
+   * Deploy OpenLDAP and create the base entry with its `people` and
+   * `groups` organizational units.
+   */
+  async deploy(): Promise<void> {
+    this._log("Starting OpenLDAP deployment...");
+    const { namespace, name, baseDn, adminPassword } = this.deploymentConfig;
+
+    await this.k8sClient.createNamespaceIfNotExists(namespace);
+    const image = getRegistryMirror().rewrite(
+      this.deploymentConfig.image,
+      "ldap image",
+    );
+    await this.k8sClient.applyManifests(
+      envsubst(fs.readFileSync(LDAP_MANIFEST_PATH, "utf-8"), {
+        /* eslint-disable @typescript-eslint/naming-convention */
+        LDAP_NAME: name,
+        LDAP_IMAGE: image,
+        LDAP_BASE_DN: baseDn,
+        LDAP_ADMIN_PASSWORD: adminPassword,
+        /* eslint-enable @typescript-eslint/naming-convention */
+      }),
+      namespace,
+    );
+    await this.waitUntilReady();
+    await this._waitForSlapd();
+
+    const [rdn] = baseDn.split(",");
+    const [, domainComponent] = rdn.split("=");
+    await this._add(
+      baseDn,
+      formatLdif(baseDn, {
+        objectClass: ["dcObject", "organization", "top"],
+        dc: domainComponent,
+        o: domainComponent,
+      }),
+    );
+    for (const ou of [LDAP_USERS_OU, LDAP_GROUPS_OU]) {
+      await this._add(
+        `ou=${ou}`,
+        formatLdif(`ou=${ou},${baseDn}`, {
+          objectClass: ["organizationalUnit", "top"],
+          ou,
+        }),
+      );
+    }
+  }
+
+  /**
+   * Seed groups and users (the defaults unless given) and set the
+   * `LDAP_*` variables the `ldap` auth preset reads.
+   */
+  async configureForRHDH(options?: {
+    groups?: LdapGroupConfig[];
+    users?: LdapUserConfig[];
+  }): Promise<void> {
+    this._log("Configuring OpenLDAP for RHDH...");
+    await this.createUsersAndGroups({
+      groups: options?.groups ?? DEFAULT_LDAP_GROUPS,
+      users: options?.users ?? DEFAULT_LDAP_USERS,
+    });
+
+    process.env.LDAP_URL = this.url;
+    process.env.LDAP_BASE_DN = this.deploymentConfig.baseDn;
+    process.env.LDAP_BIND_DN = this.bindDn;
+    process.env.LDAP_BIND_PASSWORD = this.deploymentConfig.adminPassword;
+  }
+
+  /**
+   * Create a group. `groupOfNames` needs a member, so it starts with the
+   * bind DN, which the catalog ignores.
+   */
+  async createGroup(config: LdapGroupConfig): Promise<void> {
+    const { baseDn } = this.deploymentConfig;
+    if (
+      await this._add(
+        `group ${config.name}`,
+        groupEntry(baseDn, config, [this.bindDn]),
+      )
+    ) {
+      this._log(`Created group: ${config.name}`);
+    }
+  }
+
+  /**
+   * Create a user and add it to its groups, which must already exist.
+   */
+  async createUser(config: LdapUserConfig): Promise<void> {
+    const { baseDn } = this.deploymentConfig;
+    if (await this._add(`user ${config.username}`, userEntry(baseDn, config))) {
+      this._log(`Created user: ${config.username}`);
+    }
+
+    for (const groupName of config.groups ?? []) {
+      const result = await this._run(
+        "ldapmodify",
+        [],
+        memberChange(
+          groupDn(baseDn, groupName),
+          userDn(baseDn, config.username),
+          "add",
+        ),
+      );
+      if (result.exitCode === NO_SUCH_OBJECT) {
+        this._log(`  Warning: Group ${groupName} not found`);
+      } else if (result.exitCode !== VALUE_EXISTS) {
+        this._check(result, `add ${config.username} to ${groupName}`);
+        this._log(`  Added user to group: ${groupName}`);
+      }
+    }
+  }
+
+  /**
+   * Create groups, then users.
+   */
+  async createUsersAndGroups(options: {
+    users?: LdapUserConfig[];
+    groups?: LdapGroupConfig[];
+  }): Promise<void> {
+    const { groups = [], users = [] } = options;
+
+    for (const group of groups) {
+      await this.createGroup(group);
+    }
+
+    for (const user of users) {
+      await this.createUser(user);
+    }
+  }
+
+  /**
+   * Get all users, with the groups they are a member of.
+   */
+  async getUsers(): Promise<LdapUserConfig[]> {
+    const groups = await this._search(
+      LDAP_GROUPS_OU,
+      "(objectClass=groupOfNames)",
+    );
+    const users = await this._search(
+      LDAP_USERS_OU,
+      "(objectClass=inetOrgPerson)",
+    );
+    return users.map((entry) => ({
+      username: entry.attributes.uid?.[0] ?? "",
+      email: entry.attributes.mail?.[0],
+      firstName: entry.attributes.givenName?.[0],
+      lastName: entry.attributes.sn?.[0],
+      groups: groups
+        .filter((group) => group.attributes.member?.includes(entry.dn))
+        .map((group) => group.attributes.cn[0]),
+    }));
+  }
+
+  /**
+   * Get all groups
+   */
+  async getGroups(): Promise<LdapGroupConfig[]> {
+    const groups = await this._search(
+      LDAP_GROUPS_OU,
+      "(objectClass=groupOfNames)",
+    );
+    return groups.map(toGroupConfig);
+  }
+
+  /**
+   * Get the groups `username` is a member of.
+   */
+  async getGroupsOfUser(username: string): Promise<LdapGroupConfig[]> {
+    const member = userDn(this.deploymentConfig.baseDn, username);
+    const groups = await this._search(
+      LDAP_GROUPS_OU,
+      `(&(objectClass=groupOfNames)(member=${escapeFilterValue(member)}))`,
+    );
+    return groups.map(toGroupConfig);
+  }
+
+  /**
+   * Delete a user and its group memberships
+   */
+  async deleteUser(username: string): Promise<void> {
+    if (DEFAULT_LDAP_USERS.some((u) => u.username === username)) {
+      throw new Error(
+        `Deleting default LDAP user "${username}" is not permitted.`,
+      );
+    }
+
+    const { baseDn } = this.deploymentConfig;
+    for (const group of await this.getGroupsOfUser(username)) {
+      const result = await this._run(
+        "ldapmodify",
+        [],
+        memberChange(
+          groupDn(baseDn, group.name),
+          userDn(baseDn, username),
+          "delete",
+        ),
+      );
+      this._check(result, `remove ${username} from ${group.name}`);
+    }
+    if (await this._delete(userDn(baseDn, username))) {
+      this._log(`Deleted user: ${username}`);
+    }
+  }
+
+  /**
+   * Delete a group
+   */
+  async deleteGroup(groupName: string): Promise<void> {
+    if (DEFAULT_LDAP_GROUPS.some((g) => g.name === groupName)) {
+      throw new Error(
+        `Deleting default LDAP group "${groupName}" is not permitted.`,
+      );
+    }
+
+    if (await this._delete(groupDn(this.deploymentConfig.baseDn, groupName))) {
+      this._log(`Deleted group: ${groupName}`);
+    }
+  }
+
+  /**
+   * Delete users, then groups.
+   */
+  async deleteUsersAndGroups(options: {
+    users?: Array<LdapUserConfig | string>;
+    groups?: Array<LdapGroupConfig | string>;
+  }): Promise<void> {
+    const { groups = [], users = [] } = options;
+
+    for (const user of users) {
+      await this.deleteUser(typeof user === "string" ? user : user.username);
+    }
+
+    for (const group of groups) {
+      await this.deleteGroup(typeof group === "string" ? group : group.name);
+    }
+  }
+
+  /**
+   * Teardown OpenLDAP deployment
+   */
+  async teardown(): Promise<void> {
+    await this.k8sClient.deleteNamespace(this.deploymentConfig.namespace);
+    this._log(`OpenLDAP deployment torn down`);
+  }
+
+  /**
+   * Wait for OpenLDAP to be ready
+   */
+  async waitUntilReady(timeout: number = 300): Promise<void> {
+    this._log(`Waiting for OpenLDAP to be ready...`);
+    await this.k8sClient.waitForPodsWithFailureDetection(
+      this.deploymentConfig.namespace,
+      `app=${this.deploymentConfig.name}`,
+      timeout,
+    );
+  }
+
+  // Private methods
+
+  private _buildDeploymentConfig(
+    options: LdapDeploymentOptions,
+  ): LdapDeploymentConfig {
+    return {
+      namespace: options.namespace ?? DEFAULT_LDAP_CONFIG.namespace,
+      name: options.name ?? DEFAULT_LDAP_CONFIG.name,
+      image: options.image ?? DEFAULT_LDAP_CONFIG.image,
+      baseDn: options.baseDn ?? DEFAULT_LDAP_CONFIG.baseDn,
+      adminPassword: options.adminPassword ?? DEFAULT_LDAP_CONFIG.adminPassword,
+    };
+  }
+
+  /**
+   * The readiness probe only sees the port; slapd may still be loading the
+   * configuration, so wait until a bind succeeds.
+   */
+  private async _waitForSlapd(): Promise<void> {
+    const timeout = 120;
+    const startTime = Date.now();
+
+    while (true) {
+      const result = await this._run("ldapwhoami", []);
+      if (result.exitCode === 0) return;
+
+      if ((Date.now() - startTime) / 1000 >= timeout) {
+        throw new Error(
+          `OpenLDAP not accepting binds after ${timeout} seconds: ${result.stderr.trim()}`,
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    }
+  }
+
+  /** `ldapadd` one entry; false when it already exists. */
+  private async _add(label: string, ldif: string): Promise<boolean> {
+    const result = await this._run("ldapadd", [], ldif);
+    if (result.exitCode === ALREADY_EXISTS) {
+      this._log(`${label} already exists`);
+      return false;
+    }
+    this._check(result, `create ${label}`);
+    return true;
+  }
+
+  /** `ldapdelete` one entry; false when it does not exist. */
+  private async _delete(dn: string): Promise<boolean> {
+    const result = await this._run("ldapdelete", [dn]);
+    if (result.exitCode === NO_SUCH_OBJECT) return false;
+    this._check(result, `delete ${dn}`);
+    return true;
+  }
+
+  private async _search(ou: string, filter: string): Promise<LdifEntry[]> {
+    const result = await this._run("ldapsearch", [
+      "-LLL",
+      "-o",
+      "ldif-wrap=no",
+      "-b",
+      `ou=${ou},${this.deploymentConfig.baseDn}`,
+      "-s",
+      "one",
+      filter,
+    ]);
+    if (result.exitCode === NO_SUCH_OBJECT) return [];
+    this._check(result, `search ou=${ou}`);
+    return parseLdif(result.stdout);
+  }
+
+  /** Run an ldap-utils command in the OpenLDAP pod as the admin. */
+  private async _run(
+    command:
+      | "ldapadd"
+      | "ldapmodify"
+      | "ldapdelete"
+      | "ldapsearch"
+      | "ldapwhoami",
+    args: string[],
+    input?: string,
+  ): Promise<LdapResult> {
+    const { namespace, name, adminPassword } = this.deploymentConfig;
+    const result = await $({
+      stdio: ["pipe", "pipe", "pipe"],
+      nothrow: true,
+      ...(input !== undefined ? { input } : {}),
+    })`kubectl exec -i -n ${namespace} deploy/${name} -- ${command} -x -H ldap://localhost:${LDAP_PORT} -D ${this.bindDn} -w ${adminPassword} ${args}`;
+    return {
+      exitCode: result.exitCode ?? 1,
+      stdout: result.stdout,
+      stderr: result.stderr,
+    };
+  }
+
+  private _check(result: LdapResult, action: string): void {
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `LDAP ${action} failed (exit code ${result.exitCode}): ${result.stderr.trim()}`,
+      );
+    }
+  }
+
+  private _log(...args: unknown[]): void {
+    console.log("[LDAP]", ...args);
+  }
+}
+
+function toGroupConfig(entry: LdifEntry): LdapGroupConfig {
+  return {
+    name: entry.attributes.cn[0],
+    description: entry.attributes.description?.[0],
+  };
+}
+
+// RFC 4515: characters with a meaning in search filters
+function escapeFilterValue(value: string): string {
+  return value.replace(
+    /[*()\\\0]/g,
+    (c) => `\\${c.charCodeAt(0).toString(16).padStart(2, "0")}`,
+  );
+}
@@ -0,0 +1,6 @@
+export { LdapHelper } from "./deployment.js";
+export type {
+  LdapDeploymentOptions,
+  LdapUserConfig,
+  LdapGroupConfig,
+} from "./types.js";
@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  escapeDnValue,
+  formatLdif,
+  groupEntry,
+  memberChange,
+  parseLdif,
+  userDn,
+  userEntry,
+} from "./ldif.js";
+
+const BASE_DN = "dc=rhdh,dc=test";
+
+describe("escapeDnValue", () => {
+  it("escapes DN special characters", () => {
+    assert.strictEqual(escapeDnValue("Doe, Jane"), "Doe\\, Jane");
+    assert.strictEqual(escapeDnValue("#team "), "\\#team\\ ");
+  });
+});
+
+describe("userEntry", () => {
+  it("writes an inetOrgPerson under ou=people", () => {
+    assert.strictEqual(
+      userEntry(BASE_DN, {
+        username: "test1",
+        email: "test1@example.com",
+        firstName: "Test",
+        lastName: "User1",
+        password: "test1@123",
+        groups: ["developers"],
+      }),
+      [
+        "dn: uid=test1,ou=people,dc=rhdh,dc=test",
+        "objectClass: inetOrgPerson",
+        "objectClass: organizationalPerson",
+        "objectClass: person",
+        "objectClass: top",
+        "uid: test1",
+        "cn: Test User1",
+        "sn: User1",
+        "givenName: Test",
+        "mail: test1@example.com",
+        "userPassword: test1@123",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("falls back to the username for the required cn and sn", () => {
+    const ldif = userEntry(BASE_DN, { username: "bot" });
+    assert.match(ldif, /^cn: bot$/m);
+    assert.match(ldif, /^sn: bot$/m);
+    assert.doesNotMatch(ldif, /mail:/);
+  });
+});
+
+describe("groupEntry", () => {
+  it("lists every member", () => {
+    const ldif = groupEntry(BASE_DN, { name: "developers" }, [
+      userDn(BASE_DN, "test1"),
+      userDn(BASE_DN, "test2"),
+    ]);
+    assert.match(ldif, /^dn: cn=developers,ou=groups,dc=rhdh,dc=test$/m);
+    assert.match(ldif, /^member: uid=test1,ou=people,dc=rhdh,dc=test$/m);
+    assert.match(ldif, /^member: uid=test2,ou=people,dc=rhdh,dc=test$/m);
+  });
+});
+
+describe("memberChange", () => {
+  it("writes an ldapmodify record", () => {
+    assert.strictEqual(
+      memberChange("cn=admins,ou=groups,dc=x", "uid=a,ou=people,dc=x", "add"),
+      [
+        "dn: cn=admins,ou=groups,dc=x",
+        "changetype: modify",
+        "add: member",
+        "member: uid=a,ou=people,dc=x",
+        "-",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("parseLdif", () => {
+  it("round-trips base64 values and unfolds long lines", () => {
+    const text = [
+      formatLdif("uid=jose,ou=people,dc=x", { cn: "José", sn: "Núñez" }),
+      "dn: cn=developers,ou=groups,dc=x",
+      "member: uid=jose,ou=peo",
+      " ple,dc=x",
+      "member: uid=ann,ou=people,dc=x",
+      "",
+    ].join("\n");
+
+    assert.deepStrictEqual(parseLdif(text), [
+      {
+        dn: "uid=jose,ou=people,dc=x",
+        attributes: { cn: ["José"], sn: ["Núñez"] },
+      },
+      {
+        dn: "cn=developers,ou=groups,dc=x",
+        attributes: {
+          member: ["uid=jose,ou=people,dc=x", "uid=ann,ou=people,dc=x"],
+        },
+      },
+    ]);
+  });
+
+  it("returns nothing for empty output", () => {
+    assert.deepStrictEqual(parseLdif(""), []);
+  });
+});
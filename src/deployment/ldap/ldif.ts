@@ -0,0 +1,129 @@
+import { LDAP_GROUPS_OU, LDAP_USERS_OU } from "./constants.js";
+import type { LdapGroupConfig, LdapUserConfig } from "./types.js";
+
+/** An entry as read back by `ldapsearch`, attribute names as returned. */
+export type LdifEntry = {
+  dn: string;
+  attributes: Record<string, string[]>;
+};
+
+type LdifAttributes = Record<string, string | string[] | undefined>;
+
+// Characters an RFC 2849 SAFE-STRING may not contain, or not start with
+const UNSAFE_CHARS = new Set([0, 10, 13]);
+const UNSAFE_INITIAL_CHARS = new Set([32, 58, 60]); // space, ":", "<"
+
+/** Escape a value for use in a DN (RFC 4514). */
+export function escapeDnValue(value: string): string {
+  return value
+    .replace(/[,+"\\<>;=]/g, "\\$&")
+    .replace(/^[#\s]/, "\\$&")
+    .replace(/\s$/, "\\ ");
+}
+
+export function userDn(baseDn: string, username: string): string {
+  return `uid=${escapeDnValue(username)},ou=${LDAP_USERS_OU},${baseDn}`;
+}
+
+export function groupDn(baseDn: string, name: string): string {
+  return `cn=${escapeDnValue(name)},ou=${LDAP_GROUPS_OU},${baseDn}`;
+}
+
+/** One LDIF record; undefined attributes are left out. */
+export function formatLdif(dn: string, attributes: LdifAttributes): string {
+  const lines = [formatLine("dn", dn)];
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      lines.push(formatLine(name, item));
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** `inetOrgPerson` entry for `user`; memberships live on the groups. */
+export function userEntry(baseDn: string, user: LdapUserConfig): string {
+  const fullName = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return formatLdif(userDn(baseDn, user.username), {
+    objectClass: ["inetOrgPerson", "organizationalPerson", "person", "top"],
+    uid: user.username,
+    cn: fullName || user.username,
+    sn: user.lastName ?? user.username,
+    givenName: user.firstName,
+    mail: user.email,
+    userPassword: user.password,
+  });
+}
+
+/**
+ * `groupOfNames` entry for `group`. The schema requires at least one
+ * `member`, so callers pass a placeholder (the bind DN) for an empty group.
+ */
+export function groupEntry(
+  baseDn: string,
+  group: LdapGroupConfig,
+  members: string[],
+): string {
+  return formatLdif(groupDn(baseDn, group.name), {
+    objectClass: ["groupOfNames", "top"],
+    cn: group.name,
+    description: group.description,
+    member: members,
+  });
+}
+
+/** `ldapmodify` record adding or removing `memberDn` from a group. */
+export function memberChange(
+  groupDn: string,
+  memberDn: string,
+  operation: "add" | "delete",
+): string {
+  return [
+    formatLine("dn", groupDn),
+    "changetype: modify",
+    `${operation}: member`,
+    formatLine("member", memberDn),
+    "-",
+    "",
+  ].join("\n");
+}
+
+/** Parse `ldapsearch -LLL` output into entries. */
+export function parseLdif(text: string): LdifEntry[] {
+  // Unfold continuation lines, then split records on blank lines
+  const unfolded = text.replace(/\r?\n /g, "");
+  const entries: LdifEntry[] = [];
+  for (const record of unfolded.split(/\r?\n\s*\r?\n/)) {
+    let entry: LdifEntry | undefined;
+    for (const line of record.split(/\r?\n/)) {
+      if (!line || line.startsWith("#")) continue;
+      const match = line.match(/^([^:]+)(::?) ?(.*)$/);
+      if (!match) continue;
+      const [, name, separator, raw] = match;
+      const value =
+        separator === "::" ? Buffer.from(raw, "base64").toString("utf-8") : raw;
+      if (name.toLowerCase() === "dn") {
+        entry = { dn: value, attributes: {} };
+        entries.push(entry);
+      } else if (entry) {
+        (entry.attributes[name] ??= []).push(value);
+      }
+    }
+  }
+  return entries;
+}
+
+function formatLine(name: string, value: string): string {
+  return value === "" || isSafeString(value)
+    ? `${name}: ${value}`
+    : `${name}:: ${Buffer.from(value, "utf-8").toString("base64")}`;
+}
+
+function isSafeString(value: string): boolean {
+  if (UNSAFE_INITIAL_CHARS.has(value.charCodeAt(0))) return false;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code > 0x7f || UNSAFE_CHARS.has(code)) return false;
+  }
+  return true;
+}
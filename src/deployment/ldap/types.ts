@@ -0,0 +1,34 @@
+export type LdapDeploymentOptions = {
+  namespace?: string;
+  /** Name of the Deployment and Service */
+  name?: string;
+  /** OpenLDAP image (Bitnami layout) */
+  image?: string;
+  baseDn?: string;
+  adminPassword?: string;
+};
+
+export type LdapDeploymentConfig = {
+  namespace: string;
+  name: string;
+  image: string;
+  baseDn: string;
+  adminPassword: string;
+};
+
+export type LdapUserConfig = {
+  /** `uid`, and the catalog User name */
+  username: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  password?: string;
+  /** Names of groups this user is a `member` of */
+  groups?: string[];
+};
+
+export type LdapGroupConfig = {
+  /** `cn`, and the catalog Group name */
+  name: string;
+  description?: string;
+};
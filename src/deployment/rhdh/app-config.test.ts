@@ -0,0 +1,80 @@
+/* eslint-disable @typescript-eslint/naming-convention -- proxy endpoints are keyed by path */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  mergeConfigLayers,
+  splitConfigInput,
+  type AppConfig,
+  type DynamicPluginsConfigLayer,
+} from "./app-config.js";
+import type { RHDHDeployment } from "./deployment.js";
+
+const rhdh = { rhdhUrl: "https://rhdh.example.com" } as RHDHDeployment;
+
+describe("splitConfigInput", () => {
+  it("uses the default path when only layers are given", () => {
+    const layer: AppConfig = { app: { title: "Test" } };
+    assert.deepStrictEqual(splitConfigInput(layer, "default.yaml"), {
+      path: "default.yaml",
+      layers: [layer],
+    });
+    assert.deepStrictEqual(splitConfigInput(undefined, "default.yaml"), {
+      path: "default.yaml",
+      layers: [],
+    });
+  });
+
+  it("takes the first path as the main file and keeps the rest in order", () => {
+    const layer: AppConfig = {};
+    assert.deepStrictEqual(
+      splitConfigInput(["a.yaml", layer, "b.yaml"], "default.yaml"),
+      { path: "a.yaml", layers: [layer, "b.yaml"] },
+    );
+  });
+});
+
+describe("mergeConfigLayers", () => {
+  it("merges objects, builder results and files in order", async () => {
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "app-config-test-")),
+      "extra.yaml",
+    );
+    fs.writeFileSync(file, "app:\n  title: From file\n");
+
+    const merged = await mergeConfigLayers<AppConfig>(
+      { app: { title: "Base" }, backend: { baseUrl: "x" } },
+      [
+        { catalog: { locations: [{ type: "url", target: "https://a" }] } },
+        async (deployment) => ({
+          proxy: { endpoints: { "/api": { target: deployment.rhdhUrl } } },
+        }),
+        file,
+      ],
+      rhdh,
+    );
+
+    assert.deepStrictEqual(merged, {
+      app: { title: "From file" },
+      backend: { baseUrl: "x" },
+      catalog: { locations: [{ type: "url", target: "https://a" }] },
+      proxy: { endpoints: { "/api": { target: "https://rhdh.example.com" } } },
+    });
+  });
+
+  it("merges dynamic plugins by package with the given strategy", async () => {
+    const merged = await mergeConfigLayers<DynamicPluginsConfigLayer>(
+      { plugins: [{ package: "a", disabled: true }, { package: "b" }] },
+      [{ plugins: [{ package: "a", disabled: false }, { package: "c" }] }],
+      rhdh,
+      { arrayMergeStrategy: { byKey: "package" } },
+    );
+    assert.deepStrictEqual(merged.plugins, [
+      { package: "a", disabled: false },
+      { package: "b" },
+      { package: "c" },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import fs from "fs";
+import yaml from "js-yaml";
+import { deepMerge, type MergeOptions } from "../../utils/merge-yamls.js";
+import type { RHDHDeployment } from "./deployment.js";
+
+/**
+ * The parts of Backstage/RHDH app-config tests touch most, typed; every
+ * other key is accepted as is.
+ */
+export type AppConfig = {
+  app?: { title?: string; baseUrl?: string; [key: string]: unknown };
+  backend?: {
+    baseUrl?: string;
+    cors?: { origin?: string | string[]; [key: string]: unknown };
+    auth?: {
+      externalAccess?: Array<{
+        type: string;
+        options: Record<string, unknown>;
+      }>;
+      [key: string]: unknown;
+    };
+    [key: string]: unknown;
+  };
+  auth?: {
+    environment?: string;
+    /** Provider id (`oidc`, `github`…) → environment → provider config */
+    providers?: Record<string, Record<string, AuthProviderConfig>>;
+    [key: string]: unknown;
+  };
+  signInPage?: string;
+  catalog?: {
+    locations?: CatalogLocation[];
+    rules?: Array<{ allow: string[]; [key: string]: unknown }>;
+    providers?: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+  proxy?: {
+    endpoints?: Record<string, string | ProxyEndpoint>;
+    [key: string]: unknown;
+  };
+  integrations?: Record<string, Array<Record<string, unknown>>>;
+  permission?: { enabled?: boolean; [key: string]: unknown };
+  [key: string]: unknown;
+};
+
+export type AuthProviderConfig = {
+  clientId?: string;
+  clientSecret?: string;
+  metadataUrl?: string;
+  callbackUrl?: string;
+  signIn?: { resolvers: Array<{ resolver: string; [key: string]: unknown }> };
+  [key: string]: unknown;
+};
+
+export type CatalogLocation = {
+  type: "url" | "file" | (string & {});
+  target: string;
+  rules?: Array<{ allow: string[] }>;
+};
+
+export type ProxyEndpoint = {
+  target: string;
+  changeOrigin?: boolean;
+  secure?: boolean;
+  headers?: Record<string, string>;
+  credentials?: "require" | "forward" | "dangerously-allow-unauthenticated";
+  pathRewrite?: Record<string, string>;
+  [key: string]: unknown;
+};
+
+/** One entry of `dynamicPlugins.frontend.<plugin>.mountPoints`. */
+export type MountPoint = {
+  mountPoint: string;
+  importName: string;
+  module?: string;
+  config?: {
+    layout?: Record<string, unknown>;
+    if?: Record<string, unknown>;
+    props?: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+};
+
+/** Frontend wiring of a dynamic plugin, under `dynamicPlugins.frontend.<plugin>`. */
+export type FrontendPluginConfig = {
+  mountPoints?: MountPoint[];
+  dynamicRoutes?: Array<{
+    path: string;
+    importName?: string;
+    module?: string;
+    menuItem?: { icon?: string; text?: string };
+    [key: string]: unknown;
+  }>;
+  appIcons?: Array<{ name: string; importName: string; module?: string }>;
+  routeBindings?: Record<string, unknown>;
+  entityTabs?: Array<{ path: string; title: string; mountPoint: string }>;
+  menuItems?: Record<string, unknown>;
+  [key: string]: unknown;
+};
+
+/** An entry of the dynamic plugins config. */
+export type DynamicPlugin = {
+  /** OCI reference, npm package or local path */
+  package: string;
+  disabled?: boolean;
+  integrity?: string;
+  pluginConfig?: AppConfig & {
+    dynamicPlugins?: {
+      frontend?: Record<string, FrontendPluginConfig>;
+      [key: string]: unknown;
+    };
+  };
+};
+
+export type DynamicPluginsConfigLayer = {
+  includes?: string[];
+  /** Merged with the file's plugins by `package` */
+  plugins?: DynamicPlugin[];
+};
+
+/** `rhdh-secrets` entries (`stringData`), not envsubst'ed. */
+export type SecretsLayer = Record<string, string>;
+
+/**
+ * An extra configuration layer: an object, or a function computing one at
+ * deploy time from runtime values (a Keycloak URL, a created repository…).
+ */
+export type ConfigLayer<T> = T | ((rhdh: RHDHDeployment) => T | Promise<T>);
+
+/**
+ * A YAML file path, a layer, or a list of both, merged in order. Without a
+ * path, the workspace file is merged first.
+ */
+export type ConfigInput<T> =
+  | string
+  | ConfigLayer<T>
+  | Array<string | ConfigLayer<T>>;
+
+/** Every entry of a {@link ConfigInput}, paths included, as a list. */
+export function configLayers<T>(
+  input: ConfigInput<T> | undefined,
+): Array<string | ConfigLayer<T>> {
+  return input === undefined ? [] : Array.isArray(input) ? input : [input];
+}
+
+/**
+ * Split a {@link ConfigInput} into the main file path (the first path, or
+ * `defaultPath`) and the layers merged after it.
+ */
+export function splitConfigInput<T>(
+  input: ConfigInput<T> | undefined,
+  defaultPath: string,
+): { path: string; layers: Array<string | ConfigLayer<T>> } {
+  const items = configLayers(input);
+  const index = items.findIndex((item) => typeof item === "string");
+  if (index === -1) return { path: defaultPath, layers: items };
+  return {
+    path: items[index] as string,
+    layers: items.filter((_, i) => i !== index),
+  };
+}
+
+/** Evaluate a layer: read a path as YAML, call a function, or return the object. */
+export async function resolveConfigLayer<T>(
+  layer: string | ConfigLayer<T>,
+  rhdh: RHDHDeployment,
+): Promise<T> {
+  if (typeof layer === "string") {
+    return (yaml.load(fs.readFileSync(layer, "utf-8")) ?? {}) as T;
+  }
+  if (typeof layer === "function") {
+    return await (layer as (rhdh: RHDHDeployment) => T | Promise<T>)(rhdh);
+  }
+  return layer;
+}
+
+/** Merge `layers` onto `base` in order. */
+export async function mergeConfigLayers<T>(
+  base: Record<string, unknown>,
+  layers: Array<string | ConfigLayer<T>>,
+  rhdh: RHDHDeployment,
+  options?: MergeOptions,
+): Promise<Record<string, unknown>> {
+  let merged = base;
+  for (const layer of layers) {
+    const resolved = await resolveConfigLayer(layer, rhdh);
+    merged = deepMerge(merged, resolved as Record<string, unknown>, options);
+  }
+  return merged;
+}
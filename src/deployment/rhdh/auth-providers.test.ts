@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import type { Page } from "@playwright/test";
+import { LoginHelper } from "../../playwright/helpers/common.js";
+import type { RHDHDeployment } from "./deployment.js";
+import type { AppConfig } from "./app-config.js";
+import {
+  getAuthProvider,
+  listAuthProviders,
+  registerAuthProvider,
+} from "./auth-providers.js";
+
+describe("auth provider registry", () => {
+  it("registers the bundled providers", () => {
+    for (const name of ["guest", "keycloak", "github", "microsoft", "ldap"]) {
+      assert.ok(listAuthProviders().includes(name), name);
+    }
+    assert.match(
+      getAuthProvider("keycloak").appConfig as string,
+      /auth\/keycloak\/app-config\.yaml$/,
+    );
+  });
+
+  it("names the registered providers for an unknown one", () => {
+    assert.throws(
+      () => getAuthProvider("saml"),
+      /Unknown auth provider "saml"\. Registered: guest, keycloak, github/,
+    );
+  });
+
+  it("returns a registered custom provider", () => {
+    const definition = {
+      appConfig: { auth: { providers: { gitlab: {} } } },
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      secrets: { GITLAB_TOKEN: "token" },
+    };
+    registerAuthProvider("gitlab-test", definition);
+    assert.strictEqual(getAuthProvider("gitlab-test"), definition);
+  });
+});
+
+describe("microsoft auth provider", () => {
+  const appConfig = getAuthProvider("microsoft").appConfig as (
+    rhdh: RHDHDeployment,
+  ) => AppConfig;
+
+  it("configures Microsoft Entra ID by default", () => {
+    delete process.env.AUTH_MICROSOFT_MOCK_URL;
+    const config = appConfig({} as RHDHDeployment);
+    assert.strictEqual(config.signInPage, "microsoft");
+    assert.ok(config.auth?.providers?.microsoft);
+  });
+
+  it("switches to the OIDC mock when AUTH_MICROSOFT_MOCK_URL is set", () => {
+    process.env.AUTH_MICROSOFT_MOCK_URL = "http://mock.test";
+    try {
+      const config = appConfig({} as RHDHDeployment);
+      assert.strictEqual(config.signInPage, "oidc");
+      assert.match(
+        String(config.auth?.providers?.oidc?.production?.metadataUrl),
+        /AUTH_MICROSOFT_MOCK_URL\}\/microsoft\/\.well-known/,
+      );
+    } finally {
+      delete process.env.AUTH_MICROSOFT_MOCK_URL;
+    }
+  });
+
+  it("requires AUTH_MICROSOFT_USER to sign in", async () => {
+    delete process.env.AUTH_MICROSOFT_USER;
+    await assert.rejects(
+      getAuthProvider("microsoft").login!(new LoginHelper({} as Page)),
+      /AUTH_MICROSOFT_USER/,
+    );
+  });
+});
+
+describe("LoginHelper.login", () => {
+  it("runs the provider's login routine", async () => {
+    const calls: LoginHelper[] = [];
+    registerAuthProvider("login-test", {
+      login: async (loginHelper) => {
+        calls.push(loginHelper);
+      },
+    });
+    const loginHelper = new LoginHelper({} as Page);
+    await loginHelper.login("login-test");
+    assert.deepStrictEqual(calls, [loginHelper]);
+  });
+
+  it("rejects a provider without a login routine", async () => {
+    registerAuthProvider("no-login-test", {});
+    await assert.rejects(
+      new LoginHelper({} as Page).login("no-login-test"),
+      /"no-login-test" has no login routine/,
+    );
+  });
+
+  it("explains how to sign in with the ldap preset", async () => {
+    await assert.rejects(
+      new LoginHelper({} as Page).login("ldap"),
+      /ships no LDAP sign-in page\. Add the LDAP auth plugins/,
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import fs from "fs";
+import yaml from "js-yaml";
+import { requireEnv } from "../../utils/common.js";
+import type { MergeOptions } from "../../utils/merge-yamls.js";
+import type { LoginHelper } from "../../playwright/helpers/common.js";
+import type {
+  AppConfig,
+  ConfigInput,
+  DynamicPluginsConfigLayer,
+  SecretsLayer,
+} from "./app-config.js";
+import { AUTH_CONFIG_PATHS, MICROSOFT_OIDC_MOCK_PATHS } from "./constants.js";
+
+/**
+ * An auth provider selectable with `DeploymentOptions.auth`: configuration
+ * merged between the package defaults and the workspace files, and the
+ * browser sign-in matching it.
+ */
+export type AuthProviderDefinition = {
+  /** App-config YAML paths and/or typed layers */
+  appConfig?: ConfigInput<AppConfig>;
+  /** Secrets YAML paths (envsubst'ed) and/or `stringData` layers */
+  secrets?: ConfigInput<SecretsLayer>;
+  /** Dynamic plugins YAML paths and/or layers, merged by `package` */
+  dynamicPlugins?: ConfigInput<DynamicPluginsConfigLayer>;
+  /** How this provider's app-config and the workspace app-config merge */
+  mergeStrategy?: MergeOptions;
+  /** Signs in through the browser; used by `LoginHelper.login()` */
+  login?: (loginHelper: LoginHelper) => Promise<void>;
+};
+
+const registry = new Map<string, AuthProviderDefinition>();
+
+/**
+ * Register (or replace) the auth provider `name`, e.g. from a workspace's
+ * Playwright config or a shared fixture module, before `configure()`.
+ */
+export function registerAuthProvider(
+  name: string,
+  definition: AuthProviderDefinition,
+): void {
+  registry.set(name, definition);
+}
+
+/** The definition registered as `name`; throws naming the registered ones otherwise. */
+export function getAuthProvider(name: string): AuthProviderDefinition {
+  const definition = registry.get(name);
+  if (!definition) {
+    throw new Error(
+      `Unknown auth provider "${name}". Registered: ${listAuthProviders().join(", ")}. ` +
+        `Call registerAuthProvider("${name}", { ... }) before configure().`,
+    );
+  }
+  return definition;
+}
+
+/** Names of every registered auth provider. */
+export function listAuthProviders(): string[] {
+  return [...registry.keys()];
+}
+
+registerAuthProvider("guest", {
+  appConfig: AUTH_CONFIG_PATHS.guest.appConfig,
+  login: (loginHelper) => loginHelper.loginAsGuest(),
+});
+
+registerAuthProvider("keycloak", {
+  appConfig: AUTH_CONFIG_PATHS.keycloak.appConfig,
+  secrets: AUTH_CONFIG_PATHS.keycloak.secrets,
+  dynamicPlugins: AUTH_CONFIG_PATHS.keycloak.dynamicPlugins,
+  login: (loginHelper) => loginHelper.loginAsKeycloakUser(),
+});
+
+registerAuthProvider("github", {
+  appConfig: AUTH_CONFIG_PATHS.github.appConfig,
+  secrets: AUTH_CONFIG_PATHS.github.secrets,
+  mergeStrategy: AUTH_CONFIG_PATHS.github.mergeStrategy,
+  login: (loginHelper) => loginHelper.loginAsGithubUser(),
+});
+
+// RHDH bundles no LDAP sign-in page: workspaces that sign in add the LDAP
+// auth plugins and re-register "ldap" with their own login routine
+registerAuthProvider("ldap", {
+  appConfig: AUTH_CONFIG_PATHS.ldap.appConfig,
+  secrets: AUTH_CONFIG_PATHS.ldap.secrets,
+  dynamicPlugins: AUTH_CONFIG_PATHS.ldap.dynamicPlugins,
+  login: async () => {
+    throw new Error(
+      'The "ldap" auth preset ingests LDAP users and groups but ships no LDAP sign-in page. ' +
+        "Add the LDAP auth plugins to the workspace's dynamic plugins and register a login routine: " +
+        'registerAuthProvider("ldap", { ...getAuthProvider("ldap"), login }).',
+    );
+  },
+});
+
+// Microsoft Entra ID, or the OIDC mock from deployMicrosoftOidcMock() once it
+// has set AUTH_MICROSOFT_MOCK_URL
+const useMicrosoftMock = () => Boolean(process.env.AUTH_MICROSOFT_MOCK_URL);
+
+registerAuthProvider("microsoft", {
+  appConfig: () =>
+    yaml.load(
+      fs.readFileSync(
+        useMicrosoftMock()
+          ? MICROSOFT_OIDC_MOCK_PATHS.appConfig
+          : AUTH_CONFIG_PATHS.microsoft.appConfig,
+        "utf-8",
+      ),
+    ) as AppConfig,
+  secrets: AUTH_CONFIG_PATHS.microsoft.secrets,
+  login: async (loginHelper) => {
+    requireEnv("AUTH_MICROSOFT_USER");
+    const user = process.env.AUTH_MICROSOFT_USER!;
+    if (useMicrosoftMock()) {
+      await loginHelper.loginWithOidcMock(user);
+      return;
+    }
+    requireEnv("AUTH_MICROSOFT_PASSWORD");
+    const result = await loginHelper.microsoftAzureLogin(
+      user,
+      process.env.AUTH_MICROSOFT_PASSWORD!,
+    );
+    if (result === "User does not exist") {
+      throw new Error(`Microsoft user ${user} does not exist`);
+    }
+  },
+});
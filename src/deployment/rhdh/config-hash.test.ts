@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { changedArtifacts, computeConfigHash } from "./config-hash.js";
+import type { DeploymentArtifacts } from "./types.js";
+
+const helmArtifacts = (): DeploymentArtifacts => ({
+  method: "helm",
+  appConfig: { app: { title: "RHDH" }, backend: { baseUrl: "x" } },
+  secrets: { stringData: { token: "abc" } },
+  helmValues: "global:\n  dynamic: {}\n",
+});
+
+describe("computeConfigHash", () => {
+  it("is stable for identical content regardless of key order", () => {
+    const reordered: DeploymentArtifacts = {
+      helmValues: "global:\n  dynamic: {}\n",
+      secrets: { stringData: { token: "abc" } },
+      appConfig: { backend: { baseUrl: "x" }, app: { title: "RHDH" } },
+      method: "helm",
+    };
+    assert.strictEqual(
+      computeConfigHash(helmArtifacts(), { version: "1.9" }),
+      computeConfigHash(reordered, { version: "1.9" }),
+    );
+  });
+
+  it("changes when a secret value changes", () => {
+    const changed = helmArtifacts();
+    changed.secrets = { stringData: { token: "def" } };
+    assert.notStrictEqual(
+      computeConfigHash(helmArtifacts(), { version: "1.9" }),
+      computeConfigHash(changed, { version: "1.9" }),
+    );
+  });
+
+  it("changes when the requested version changes", () => {
+    assert.notStrictEqual(
+      computeConfigHash(helmArtifacts(), { version: "1.9" }),
+      computeConfigHash(helmArtifacts(), { version: "1.10" }),
+    );
+  });
+
+  it("changes when the same requested version resolves to a newer build", () => {
+    assert.notStrictEqual(
+      computeConfigHash(helmArtifacts(), {
+        version: "next",
+        chart: "1.10-120-CI",
+        images: ["quay.io/rhdh/rhdh-hub-rhel9@sha256:aaa"],
+      }),
+      computeConfigHash(helmArtifacts(), {
+        version: "next",
+        chart: "1.10-121-CI",
+        images: ["quay.io/rhdh/rhdh-hub-rhel9@sha256:aaa"],
+      }),
+    );
+    assert.notStrictEqual(
+      computeConfigHash(helmArtifacts(), {
+        version: "1.9",
+        images: ["quay.io/rhdh/rhdh-hub-rhel9@sha256:aaa"],
+      }),
+      computeConfigHash(helmArtifacts(), {
+        version: "1.9",
+        images: ["quay.io/rhdh/rhdh-hub-rhel9@sha256:bbb"],
+      }),
+    );
+  });
+
+  it("distinguishes helm values from operator artifacts", () => {
+    const operator: DeploymentArtifacts = {
+      method: "operator",
+      appConfig: helmArtifacts().appConfig,
+      secrets: helmArtifacts().secrets,
+      dynamicPlugins: { plugins: [] },
+      backstageCR: { kind: "Backstage" },
+    };
+    assert.notStrictEqual(
+      computeConfigHash(helmArtifacts(), { version: "1.9" }),
+      computeConfigHash(operator, { version: "1.9" }),
+    );
+  });
+});
+
+describe("changedArtifacts", () => {
+  it("reports nothing for the same content in a different key order", () => {
+    const reordered = helmArtifacts();
+    reordered.appConfig = { backend: { baseUrl: "x" }, app: { title: "RHDH" } };
+    assert.deepStrictEqual(changedArtifacts(helmArtifacts(), reordered), []);
+  });
+
+  it("names each changed part", () => {
+    const changed: DeploymentArtifacts = {
+      ...helmArtifacts(),
+      method: "helm",
+      appConfig: { app: { title: "Other" } },
+      helmValues: "global:\n  dynamic:\n    plugins: []\n",
+    };
+    assert.deepStrictEqual(changedArtifacts(helmArtifacts(), changed), [
+      "appConfig",
+      "helmValues",
+    ]);
+  });
+
+  it("compares operator dynamic plugins and CR separately", () => {
+    const operator = (plugins: unknown[]): DeploymentArtifacts => ({
+      method: "operator",
+      appConfig: {},
+      secrets: {},
+      dynamicPlugins: { plugins },
+      backstageCR: { spec: {} },
+    });
+    assert.deepStrictEqual(
+      changedArtifacts(operator([]), operator([{ package: "a" }])),
+      ["dynamicPlugins"],
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import type { DeploymentArtifacts } from "./types.js";
+
+/** Marker ConfigMap holding the hash of the last successfully deployed configuration. */
+export const CONFIG_HASH_CONFIGMAP = "rhdh-config-hash";
+
+/**
+ * JSON with object keys sorted at every level, so two merges that produce the
+ * same content in a different key order hash the same.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * What a deploy installs besides its artifacts. A requested version such as
+ * `next` or `1.8` points at newer builds over time, so the hash also covers
+ * what it currently resolves to.
+ */
+export type InstalledVersion = {
+  /** Requested RHDH version, e.g. `next` or `1.8` */
+  version: string;
+  /** Resolved Helm chart version, or `sha256:…` of a local chart */
+  chart?: string;
+  /** Effective RHDH image refs: overrides, or the digest the version's image tag points to */
+  images?: string[];
+};
+
+/**
+ * Content hash of everything a deploy applies — merged app-config, secrets,
+ * dynamic plugins and Helm values or Backstage CR — plus the installed
+ * version, which is not part of the artifacts but changes what gets installed.
+ */
+export function computeConfigHash(
+  artifacts: DeploymentArtifacts,
+  installed: InstalledVersion,
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(stableStringify({ installed, artifacts }))
+    .digest("hex");
+}
+
+/** A part of the deployment artifacts that `reconfigure()` re-applies on its own. */
+export type ArtifactChange =
+  | "appConfig"
+  | "secrets"
+  | "helmValues"
+  | "dynamicPlugins"
+  | "backstageCR";
+
+/** The parts that differ between two builds of the same installation method. */
+export function changedArtifacts(
+  before: DeploymentArtifacts,
+  after: DeploymentArtifacts,
+): ArtifactChange[] {
+  const changed = (a: unknown, b: unknown) =>
+    stableStringify(a) !== stableStringify(b);
+  const changes: ArtifactChange[] = [];
+  if (changed(before.appConfig, after.appConfig)) changes.push("appConfig");
+  if (changed(before.secrets, after.secrets)) changes.push("secrets");
+  if (before.method === "helm" && after.method === "helm") {
+    if (changed(before.helmValues, after.helmValues)) {
+      changes.push("helmValues");
+    }
+  } else if (before.method === "operator" && after.method === "operator") {
+    if (changed(before.dynamicPlugins, after.dynamicPlugins)) {
+      changes.push("dynamicPlugins");
+    }
+    if (changed(before.backstageCR, after.backstageCR)) {
+      changes.push("backstageCR");
+    }
+  } else {
+    throw new Error(
+      `Cannot compare ${before.method} and ${after.method} deployments`,
+    );
+  }
+  return changes;
+}
@@ -1,5 +1,5 @@
 import path from "path";
-import type { AuthProvider } from "./types.js";
+import type { BuiltInAuthProvider } from "./types.js";
 import { MergeOptions } from "../../utils/merge-yamls.js";
 
 // Navigate from dist/deployment/rhdh/ to package root
@@ -45,14 +45,26 @@ export const DEFAULT_CONFIG_PATHS = {
       "dist/deployment/rhdh/config/operator/subscription.yaml",
     ),
   },
+  /** Plain Kubernetes layers (`CLUSTER_FLAVOR=kubernetes`): Ingress instead of Route. */
+  kubernetes: {
+    valueFile: path.join(
+      PACKAGE_ROOT,
+      "dist/deployment/rhdh/config/kubernetes/value_file.yaml",
+    ),
+    subscription: path.join(
+      PACKAGE_ROOT,
+      "dist/deployment/rhdh/config/kubernetes/subscription.yaml",
+    ),
+  },
 };
 
+/** Bundled auth provider files, registered by `auth-providers.ts`. */
 export const AUTH_CONFIG_PATHS: Record<
-  AuthProvider,
+  BuiltInAuthProvider,
   {
     appConfig: string;
-    secrets: string;
-    dynamicPlugins: string;
+    secrets?: string;
+    dynamicPlugins?: string;
     mergeStrategy?: MergeOptions;
   }
 > = {
@@ -61,8 +73,6 @@ export const AUTH_CONFIG_PATHS: Record<
       PACKAGE_ROOT,
       "dist/deployment/rhdh/config/auth/guest/app-config.yaml",
     ),
-    secrets: "",
-    dynamicPlugins: "",
   },
   keycloak: {
     appConfig: path.join(
@@ -87,9 +97,45 @@ export const AUTH_CONFIG_PATHS: Record<
       PACKAGE_ROOT,
       "dist/deployment/rhdh/config/auth/github/secrets.yaml",
     ),
-    dynamicPlugins: "",
     mergeStrategy: { arrayMergeStrategy: { byKey: "target" } },
   },
+  microsoft: {
+    appConfig: path.join(
+      PACKAGE_ROOT,
+      "dist/deployment/rhdh/config/auth/microsoft/app-config.yaml",
+    ),
+    secrets: path.join(
+      PACKAGE_ROOT,
+      "dist/deployment/rhdh/config/auth/microsoft/secrets.yaml",
+    ),
+  },
+  ldap: {
+    appConfig: path.join(
+      PACKAGE_ROOT,
+      "dist/deployment/rhdh/config/auth/ldap/app-config.yaml",
+    ),
+    secrets: path.join(
+      PACKAGE_ROOT,
+      "dist/deployment/rhdh/config/auth/ldap/secrets.yaml",
+    ),
+    dynamicPlugins: path.join(
+      PACKAGE_ROOT,
+      "dist/deployment/rhdh/config/auth/ldap/dynamic-plugins.yaml",
+    ),
+  },
+};
+
+/** Companion of the `microsoft` preset for an in-cluster OIDC mock (`deployMicrosoftOidcMock()`). */
+export const MICROSOFT_OIDC_MOCK_PATHS = {
+  /** Used instead of the preset's app-config when `AUTH_MICROSOFT_MOCK_URL` is set */
+  appConfig: path.join(
+    PACKAGE_ROOT,
+    "dist/deployment/rhdh/config/auth/microsoft/oidc-mock-app-config.yaml",
+  ),
+  manifest: path.join(
+    PACKAGE_ROOT,
+    "dist/deployment/rhdh/config/auth/microsoft/oidc-mock.yaml",
+  ),
 };
 
 export const CHART_URL = "oci://quay.io/rhdh/chart";
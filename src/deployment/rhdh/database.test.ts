@@ -0,0 +1,155 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import yaml from "js-yaml";
+import {
+  STANDALONE_DB_NAME,
+  databaseAppConfig,
+  databaseSecrets,
+  standalonePostgresManifest,
+} from "./database.js";
+
+const CA = "-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----\n";
+
+type Connection = Record<string, unknown> & { ssl?: Record<string, unknown> };
+const connectionOf = (config: Record<string, unknown>) =>
+  (config.backend as { database: { connection: Connection } }).database
+    .connection;
+
+describe("databaseSecrets", () => {
+  it("points at the in-namespace service for a standalone database", () => {
+    const secrets = databaseSecrets("ns1", { type: "standalone" });
+    assert.strictEqual(secrets.POSTGRES_HOST, `${STANDALONE_DB_NAME}.ns1.svc`);
+    assert.strictEqual(secrets.POSTGRES_PORT, "5432");
+    assert.strictEqual(secrets.POSTGRES_USER, "postgres");
+    assert.strictEqual(secrets["postgres-password"], secrets.POSTGRES_PASSWORD);
+    assert.deepStrictEqual(
+      databaseSecrets("ns1", { type: "standalone" }),
+      secrets,
+      "password is stable per namespace",
+    );
+  });
+
+  it("uses the given connection for an external database", () => {
+    const secrets = databaseSecrets("ns1", {
+      type: "external",
+      host: "db.example.com",
+      port: 6543,
+      user: "rhdh",
+      password: "s3cret",
+      tls: { ca: CA },
+    });
+    /* eslint-disable @typescript-eslint/naming-convention */
+    assert.deepStrictEqual(secrets, {
+      POSTGRES_HOST: "db.example.com",
+      POSTGRES_PORT: "6543",
+      POSTGRES_USER: "rhdh",
+      POSTGRES_PASSWORD: "s3cret",
+      "postgres-password": "s3cret",
+      POSTGRES_CA: CA,
+    });
+    /* eslint-enable @typescript-eslint/naming-convention */
+  });
+
+  it("reads the CA from a file path", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "db-ca-"));
+    const caPath = path.join(dir, "ca.crt");
+    fs.writeFileSync(caPath, CA);
+    const secrets = databaseSecrets("ns1", {
+      type: "external",
+      host: "db",
+      user: "u",
+      password: "p",
+      tls: { ca: caPath },
+    });
+    assert.strictEqual(secrets.POSTGRES_CA, CA);
+    fs.rmSync(dir, { recursive: true });
+  });
+});
+
+describe("databaseAppConfig", () => {
+  it("reads the connection from env without ssl by default", () => {
+    const connection = connectionOf(databaseAppConfig({ type: "standalone" }));
+    assert.strictEqual(connection.host, "${POSTGRES_HOST}");
+    assert.strictEqual(connection.ssl, undefined);
+  });
+
+  it("requires ssl without verification for a standalone database", () => {
+    const connection = connectionOf(
+      databaseAppConfig({ type: "standalone", tls: true }),
+    );
+    assert.deepStrictEqual(connection.ssl, {
+      require: true,
+      rejectUnauthorized: false,
+    });
+  });
+
+  it("verifies the server certificate when a CA is given", () => {
+    const connection = connectionOf(
+      databaseAppConfig({
+        type: "external",
+        host: "db",
+        user: "u",
+        password: "p",
+        tls: { ca: CA },
+      }),
+    );
+    assert.deepStrictEqual(connection.ssl, {
+      require: true,
+      rejectUnauthorized: true,
+      ca: "${POSTGRES_CA}",
+    });
+  });
+});
+
+describe("standalonePostgresManifest", () => {
+  const originalFlavor = process.env.CLUSTER_FLAVOR;
+  const originalMirrors = process.env.REGISTRY_MIRRORS;
+
+  afterEach(() => {
+    if (originalFlavor === undefined) delete process.env.CLUSTER_FLAVOR;
+    else process.env.CLUSTER_FLAVOR = originalFlavor;
+    if (originalMirrors === undefined) delete process.env.REGISTRY_MIRRORS;
+    else process.env.REGISTRY_MIRRORS = originalMirrors;
+  });
+
+  it("renders a Secret, Service and StatefulSet", () => {
+    const docs = yaml.loadAll(
+      standalonePostgresManifest("ns1", { type: "standalone" }),
+    ) as Array<{ kind: string }>;
+    assert.deepStrictEqual(
+      docs.map((doc) => doc.kind),
+      ["Secret", "Service", "StatefulSet"],
+    );
+  });
+
+  it("pulls the image through the registry mirror rules", () => {
+    process.env.REGISTRY_MIRRORS =
+      '{"quay.io/sclorg": "mirror.lab:5000/sclorg"}';
+    assert.match(
+      standalonePostgresManifest("ns1", { type: "standalone" }),
+      /image: mirror\.lab:5000\/sclorg\/postgresql-15-c9s:latest/,
+    );
+  });
+
+  it("adds the service-CA certificate and ssl.conf with tls on OpenShift", () => {
+    process.env.CLUSTER_FLAVOR = "openshift";
+    const manifest = standalonePostgresManifest("ns1", {
+      type: "standalone",
+      tls: true,
+    });
+    assert.match(manifest, /serving-cert-secret-name: rhdh-postgres-tls/);
+    assert.match(manifest, /ssl = on/);
+  });
+
+  it("rejects tls on plain Kubernetes", () => {
+    process.env.CLUSTER_FLAVOR = "kubernetes";
+    assert.throws(
+      () =>
+        standalonePostgresManifest("ns1", { type: "standalone", tls: true }),
+      /OpenShift service CA/,
+    );
+  });
+});
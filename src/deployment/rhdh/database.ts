@@ -0,0 +1,251 @@
+import crypto from "crypto";
+import fs from "fs";
+import yaml from "js-yaml";
+import { isOpenShift } from "../../utils/cluster-flavor.js";
+import { getRegistryMirror } from "../../utils/registry-mirror.js";
+import type { DatabaseOptions } from "./types.js";
+
+/** Name of the StatefulSet, Service and TLS objects of the standalone PostgreSQL. */
+export const STANDALONE_DB_NAME = "rhdh-postgres";
+
+/** Public build of the RHEL PostgreSQL image; same entrypoint and env as registry.redhat.io/rhel9/postgresql-15. */
+export const DEFAULT_POSTGRES_IMAGE = "quay.io/sclorg/postgresql-15-c9s:latest";
+
+const DEFAULT_PORT = 5432;
+
+/**
+ * Password of the standalone database's `postgres` user. Derived from the
+ * namespace so redeploys keep the same secret (and config hash).
+ */
+function standalonePassword(namespace: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(`rhdh-e2e-postgres:${namespace}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function tlsEnabled(options: DatabaseOptions): boolean {
+  return Boolean(options.tls);
+}
+
+/** PEM content of `tls.ca`, read from disk when it is a path. */
+function readCa(options: DatabaseOptions): string | undefined {
+  if (options.type !== "external" || typeof options.tls !== "object") {
+    return undefined;
+  }
+  const ca = options.tls.ca;
+  if (!ca || ca.includes("-----BEGIN")) return ca;
+  return fs.readFileSync(ca, "utf-8");
+}
+
+/**
+ * `rhdh-secrets` entries RHDH reads the connection from. `postgres-password`
+ * is the key the Helm chart expects in `upstream.postgresql.auth.existingSecret`.
+ */
+export function databaseSecrets(
+  namespace: string,
+  options: DatabaseOptions,
+): Record<string, string> {
+  const connection =
+    options.type === "standalone"
+      ? {
+          host: `${STANDALONE_DB_NAME}.${namespace}.svc`,
+          port: DEFAULT_PORT,
+          user: "postgres",
+          password: standalonePassword(namespace),
+        }
+      : {
+          host: options.host,
+          port: options.port ?? DEFAULT_PORT,
+          user: options.user,
+          password: options.password,
+        };
+  const ca = readCa(options);
+
+  /* eslint-disable @typescript-eslint/naming-convention */
+  return {
+    POSTGRES_HOST: connection.host,
+    POSTGRES_PORT: String(connection.port),
+    POSTGRES_USER: connection.user,
+    POSTGRES_PASSWORD: connection.password,
+    "postgres-password": connection.password,
+    ...(ca ? { POSTGRES_CA: ca } : {}),
+  };
+  /* eslint-enable @typescript-eslint/naming-convention */
+}
+
+/**
+ * App-config layer pointing `backend.database` at the connection in
+ * `rhdh-secrets`. With TLS the connection requires SSL; the server
+ * certificate is verified only when a CA is given (standalone uses an
+ * OpenShift service-CA certificate, which is not verified).
+ */
+export function databaseAppConfig(
+  options: DatabaseOptions,
+): Record<string, unknown> {
+  const ca = readCa(options);
+  const rejectUnauthorized =
+    options.type === "external" && typeof options.tls === "object"
+      ? (options.tls.rejectUnauthorized ?? Boolean(ca))
+      : false;
+  return {
+    backend: {
+      database: {
+        client: "pg",
+        connection: {
+          host: "${POSTGRES_HOST}",
+          port: "${POSTGRES_PORT}",
+          user: "${POSTGRES_USER}",
+          password: "${POSTGRES_PASSWORD}",
+          ...(tlsEnabled(options)
+            ? {
+                ssl: {
+                  require: true,
+                  rejectUnauthorized,
+                  ...(ca ? { ca: "${POSTGRES_CA}" } : {}),
+                },
+              }
+            : {}),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Manifests of a single-replica PostgreSQL for `database: { type: "standalone" }`.
+ * With TLS, the OpenShift service CA issues the server certificate. The
+ * image goes through the registry mirror rules.
+ */
+export function standalonePostgresManifest(
+  namespace: string,
+  options: Extract<DatabaseOptions, { type: "standalone" }>,
+): string {
+  const tls = tlsEnabled(options);
+  if (tls && !isOpenShift()) {
+    throw new Error(
+      'database.tls for a standalone PostgreSQL needs the OpenShift service CA; on plain Kubernetes use database: { type: "external", tls: { ca } }',
+    );
+  }
+  const image = getRegistryMirror().rewrite(
+    options.image ?? DEFAULT_POSTGRES_IMAGE,
+    "database image",
+  );
+  const labels = { app: STANDALONE_DB_NAME };
+  const tlsSecret = `${STANDALONE_DB_NAME}-tls`;
+  const sslConfig = `${STANDALONE_DB_NAME}-ssl`;
+
+  const docs: Record<string, unknown>[] = [
+    {
+      apiVersion: "v1",
+      kind: "Secret",
+      metadata: { name: STANDALONE_DB_NAME, labels },
+      stringData: {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        POSTGRESQL_ADMIN_PASSWORD: standalonePassword(namespace),
+      },
+    },
+    {
+      apiVersion: "v1",
+      kind: "Service",
+      metadata: {
+        name: STANDALONE_DB_NAME,
+        labels,
+        ...(tls
+          ? {
+              annotations: {
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                "service.beta.openshift.io/serving-cert-secret-name": tlsSecret,
+              },
+            }
+          : {}),
+      },
+      spec: {
+        selector: labels,
+        ports: [{ name: "postgres", port: DEFAULT_PORT, targetPort: 5432 }],
+      },
+    },
+  ];
+
+  if (tls) {
+    docs.push({
+      apiVersion: "v1",
+      kind: "ConfigMap",
+      metadata: { name: sslConfig, labels },
+      data: {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        "ssl.conf": [
+          "ssl = on",
+          "ssl_cert_file = '/opt/app-root/src/certs/tls.crt'",
+          "ssl_key_file = '/opt/app-root/src/certs/tls.key'",
+          "",
+        ].join("\n"),
+      },
+    });
+  }
+
+  docs.push({
+    apiVersion: "apps/v1",
+    kind: "StatefulSet",
+    metadata: { name: STANDALONE_DB_NAME, labels },
+    spec: {
+      serviceName: STANDALONE_DB_NAME,
+      replicas: 1,
+      selector: { matchLabels: labels },
+      template: {
+        metadata: { labels },
+        spec: {
+          containers: [
+            {
+              name: "postgres",
+              image,
+              envFrom: [{ secretRef: { name: STANDALONE_DB_NAME } }],
+              ports: [{ name: "postgres", containerPort: 5432 }],
+              readinessProbe: {
+                exec: { command: ["/usr/libexec/check-container"] },
+                initialDelaySeconds: 5,
+                periodSeconds: 5,
+              },
+              volumeMounts: [
+                { name: "data", mountPath: "/var/lib/pgsql/data" },
+                ...(tls
+                  ? [
+                      { name: "certs", mountPath: "/opt/app-root/src/certs" },
+                      {
+                        name: "ssl-config",
+                        mountPath: "/opt/app-root/src/postgresql-cfg",
+                      },
+                    ]
+                  : []),
+              ],
+            },
+          ],
+          ...(tls
+            ? {
+                volumes: [
+                  // PostgreSQL refuses a root-owned key readable beyond u=rw,g=r
+                  {
+                    name: "certs",
+                    secret: { secretName: tlsSecret, defaultMode: 0o640 },
+                  },
+                  { name: "ssl-config", configMap: { name: sslConfig } },
+                ],
+              }
+            : {}),
+        },
+      },
+      volumeClaimTemplates: [
+        {
+          metadata: { name: "data" },
+          spec: {
+            accessModes: ["ReadWriteOnce"],
+            resources: { requests: { storage: "1Gi" } },
+          },
+        },
+      ],
+    },
+  });
+
+  return docs.map((doc) => yaml.dump(doc, { lineWidth: -1 })).join("---\n");
+}
@@ -1,7 +1,13 @@
-import { describe, it } from "node:test";
+import { afterEach, describe, it, mock } from "node:test";
 import assert from "node:assert";
+import { test, type TestInfo } from "@playwright/test";
+import yaml from "js-yaml";
+import type { KubernetesClientHelper } from "../../utils/kubernetes-client.js";
 import { deepMerge } from "../../utils/merge-yamls.js";
 import { getNormalizedPluginMergeKey } from "../../utils/plugin-metadata.js";
+import { InMemoryRegistryClient } from "../../utils/registry-client.js";
+import { RHDHDeployment } from "./deployment.js";
+import type { DeploymentArtifacts } from "./types.js";
 
 /**
  * Tests the merge behavior used when user dynamic-plugins config does not exist:
@@ -110,3 +116,171 @@ describe("dynamic-plugins merge (no user config path)", () => {
     assert.strictEqual(includes[0], "dynamic-plugins.default.yaml");
   });
 });
+
+/**
+ * A deployment whose cluster is a stubbed k8sClient recording each call, and
+ * whose artifacts are built from the object layers only. The mounted
+ * app-config always shows the last applied one, as after a kubelet sync.
+ */
+function stubbedDeployment() {
+  // Workspace paths come from the running Playwright test's project
+  mock.method(
+    test,
+    "info",
+    () => ({ project: { testDir: "/workspace/e2e-tests/tests" } }) as TestInfo,
+  );
+  const rhdh = new RHDHDeployment("reconfigure-test");
+  const calls: string[] = [];
+  let mountedAppConfig = "";
+  rhdh.registryClient = new InMemoryRegistryClient({});
+  rhdh.k8sClient = {
+    deleteConfigMap: async (name: string) => {
+      calls.push(`delete ${name}`);
+    },
+    applyConfigMapFromObject: async (
+      name: string,
+      data: Record<string, unknown>,
+    ) => {
+      calls.push(`apply ${name}`);
+      if (name === "app-config-rhdh") mountedAppConfig = yaml.dump(data);
+    },
+    applySecretFromObject: async (name: string) => {
+      calls.push(`apply ${name}`);
+    },
+    scaleDeployments: async (_ns: string, _sel: string, replicas: number) => {
+      calls.push(`scale ${replicas}`);
+      return [];
+    },
+    waitForPodsDeleted: async () => true,
+    getConfigMapMounts: async () => [
+      { pod: "rhdh-0", container: "backstage-backend", mountPath: "/config" },
+    ],
+    readPodFile: async () => mountedAppConfig,
+  } as unknown as KubernetesClientHelper;
+  rhdh.waitUntilReady = async () => {
+    calls.push("wait ready");
+  };
+
+  const objectLayers = (layers: unknown[]) =>
+    Object.assign(
+      {},
+      ...layers.filter((layer) => typeof layer === "object"),
+    ) as Record<string, unknown>;
+  const internals = rhdh as unknown as {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _buildArtifacts: () => Promise<DeploymentArtifacts>;
+  };
+  internals._buildArtifacts = async () => ({
+    method: "helm",
+    appConfig: objectLayers(rhdh.deploymentConfig.appConfigLayers),
+    secrets: {
+      stringData: objectLayers(rhdh.deploymentConfig.secretsLayers) as Record<
+        string,
+        string
+      >,
+    },
+    helmValues: "",
+    localChart: { path: "/chart", kind: "directory", digest: "abc" },
+  });
+  return { rhdh, calls, internals };
+}
+
+describe("RHDHDeployment.reconfigure", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("applies an app-config-only change without restarting once the pods see it", async () => {
+    const { rhdh, calls } = stubbedDeployment();
+    const changes = await rhdh.reconfigure({
+      appConfig: { app: { title: "Changed" } },
+    });
+    assert.deepStrictEqual(changes, ["appConfig"]);
+    assert.deepStrictEqual(calls, [
+      "delete rhdh-config-hash",
+      "apply app-config-rhdh",
+      "wait ready",
+      "apply rhdh-config-hash",
+    ]);
+  });
+
+  it("restarts on a secrets change", async () => {
+    const { rhdh, calls } = stubbedDeployment();
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    await rhdh.reconfigure({ secrets: { API_TOKEN: "token" } });
+    assert.ok(calls.includes("apply rhdh-secrets"));
+    assert.ok(calls.includes("scale 0") && calls.includes("scale 1"));
+  });
+
+  it('restarts with restart: "always" even when nothing changed', async () => {
+    const { rhdh, calls } = stubbedDeployment();
+    const changes = await rhdh.reconfigure({ restart: "always" });
+    assert.deepStrictEqual(changes, []);
+    assert.deepStrictEqual(calls, [
+      "delete rhdh-config-hash",
+      "scale 0",
+      "scale 1",
+      "wait ready",
+      "apply rhdh-config-hash",
+    ]);
+  });
+
+  it("re-applies nothing when the configuration is unchanged", async () => {
+    const { rhdh, calls } = stubbedDeployment();
+    assert.deepStrictEqual(await rhdh.reconfigure({}), []);
+    assert.deepStrictEqual(calls, []);
+  });
+
+  it("does not count a call that failed before recording its step", async () => {
+    const { rhdh, internals } = stubbedDeployment();
+    const build = internals._buildArtifacts;
+    internals._buildArtifacts = async () => {
+      throw new Error("app-config.yaml: bad indentation");
+    };
+    await assert.rejects(
+      rhdh.reconfigure({ appConfig: { app: { title: "Changed" } } }),
+      /bad indentation/,
+    );
+    assert.strictEqual(rhdh.reconfigureSteps, 0);
+
+    internals._buildArtifacts = build;
+    await rhdh.reconfigure({ appConfig: { app: { title: "Changed" } } });
+    assert.strictEqual(rhdh.reconfigureSteps, 1);
+  });
+});
+
+describe("RHDHDeployment.restoreConfiguration", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("undoes the last steps and re-applies the earlier configuration", async () => {
+    const { rhdh, calls } = stubbedDeployment();
+    const original = rhdh.deploymentConfig;
+    await rhdh.reconfigure({ appConfig: { first: true } });
+    const afterFirst = rhdh.deploymentConfig;
+    await rhdh.reconfigure({ appConfig: { second: true } });
+    assert.strictEqual(rhdh.reconfigureSteps, 2);
+
+    calls.length = 0;
+    assert.deepStrictEqual(await rhdh.restoreConfiguration(1), ["appConfig"]);
+    assert.strictEqual(rhdh.reconfigureSteps, 1);
+    assert.strictEqual(rhdh.deploymentConfig, afterFirst);
+    assert.ok(!calls.includes("scale 0"));
+
+    // More steps than recorded undoes everything
+    assert.deepStrictEqual(await rhdh.restoreConfiguration(5), ["appConfig"]);
+    assert.strictEqual(rhdh.reconfigureSteps, 0);
+    assert.strictEqual(rhdh.deploymentConfig, original);
+
+    calls.length = 0;
+    assert.deepStrictEqual(await rhdh.restoreConfiguration(), []);
+    assert.deepStrictEqual(calls, []);
+  });
+
+  it("undoes every step by default", async () => {
+    const { rhdh } = stubbedDeployment();
+    const original = rhdh.deploymentConfig;
+    await rhdh.reconfigure({ appConfig: { first: true } });
+    await rhdh.reconfigure({ appConfig: { second: true } });
+    await rhdh.restoreConfiguration();
+    assert.strictEqual(rhdh.reconfigureSteps, 0);
+    assert.strictEqual(rhdh.deploymentConfig, original);
+  });
+});
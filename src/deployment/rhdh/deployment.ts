@@ -1,45 +1,132 @@
 import { KubernetesClientHelper } from "../../utils/kubernetes-client.js";
 import { WorkspacePaths } from "../../utils/workspace-paths.js";
+import {
+  createRegistryClient,
+  type RegistryClient,
+} from "../../utils/registry-client.js";
+import {
+  formatMirrorReport,
+  getRegistryMirror,
+  splitImageRef,
+} from "../../utils/registry-mirror.js";
 import { $ } from "../../utils/bash.js";
 import yaml from "js-yaml";
 import os from "os";
 import path from "path";
-import { test, request, expect } from "@playwright/test";
+import { test } from "@playwright/test";
 import { mergeYamlFilesIfExists, deepMerge } from "../../utils/merge-yamls.js";
 import {
   generatePluginsFromMetadata,
   processPluginsForDeployment,
   getNormalizedPluginMergeKey,
   disablePlugins,
+  formatResolutionTrace,
   type DynamicPluginsConfig,
+  type PluginResolutionTrace,
+  type PluginEntry,
 } from "../../utils/plugin-metadata.js";
+import {
+  MissingPluginArtifactsError,
+  formatPluginArtifactChecks,
+  verifyPluginArtifacts,
+  type PluginArtifactCheck,
+} from "../../utils/plugin-artifacts.js";
 import { envsubst } from "../../utils/common.js";
+import { isOpenShift, getIngressScheme } from "../../utils/cluster-flavor.js";
 import { runOnce } from "../../playwright/run-once.js";
 import cloneDeepWith from "lodash.clonedeepwith";
 import fs from "fs-extra";
-import {
-  DEFAULT_CONFIG_PATHS,
-  AUTH_CONFIG_PATHS,
-  CHART_URL,
-} from "./constants.js";
+import { DEFAULT_CONFIG_PATHS, CHART_URL } from "./constants.js";
+import { getAuthProvider } from "./auth-providers.js";
 import type {
   DeploymentOptions,
   DeploymentConfig,
   DeploymentConfigBase,
   DeploymentMethod,
+  DeploymentArtifacts,
+  RenderOptions,
+  PluginInstallEntry,
+  PluginVerificationMode,
+  UpgradeOptions,
+  ReconfigureOptions,
 } from "./types.js";
+import { installRHDHOperatorVersion } from "./operator-setup.js";
+import { resolveLocalChart, type LocalChart } from "./helm-chart.js";
+import { applyImageBackstageCR, applyImageHelmValues } from "./images.js";
+import {
+  configLayers,
+  mergeConfigLayers,
+  splitConfigInput,
+} from "./app-config.js";
+import {
+  RHDH_IMAGE_REPOSITORY,
+  resolveChartVersion,
+} from "./version-resolution.js";
+import {
+  changedArtifacts,
+  computeConfigHash,
+  CONFIG_HASH_CONFIGMAP,
+  type ArtifactChange,
+  type InstalledVersion,
+} from "./config-hash.js";
+import {
+  INSTALL_DYNAMIC_PLUGINS_CONTAINER,
+  PluginInstallError,
+  formatPluginInstallReport,
+  parsePluginInstallLog,
+} from "./plugin-install-report.js";
+import {
+  fetchLoadedPlugins,
+  findMissingPlugins,
+  getGuestToken,
+  pluginVerificationAppConfig,
+  pluginVerificationToken,
+} from "./plugin-verification.js";
+import { waitForReadinessProbes } from "./readiness-probes.js";
+import {
+  STANDALONE_DB_NAME,
+  databaseAppConfig,
+  databaseSecrets,
+  standalonePostgresManifest,
+} from "./database.js";
+
+/** `filePath` as a one-element list when it exists, so optional workspace files can be skipped. */
+function existingPaths(filePath: string | undefined): string[] {
+  return filePath && fs.existsSync(filePath) ? [filePath] : [];
+}
 
 export class RHDHDeployment {
   public k8sClient = new KubernetesClientHelper();
+  /** Resolves chart and image versions; replace with an `InMemoryRegistryClient` to run offline */
+  public registryClient: RegistryClient = createRegistryClient();
   public rhdhUrl: string;
   public deploymentConfig: DeploymentConfig;
+  /** Per-plugin result of the last install-dynamic-plugins run, set by `waitUntilReady()` */
+  public pluginInstallReport: PluginInstallEntry[] | null = null;
+  /** Why each dynamic plugin of the last build resolved the way it did */
+  public pluginResolution: PluginResolutionTrace[] | null = null;
+  /** Registry lookup of each OCI plugin artifact, set when `verifyPluginArtifacts` is on */
+  public pluginArtifacts: PluginArtifactCheck[] | null = null;
+  /** Processed dynamic plugins config of the last build, checked by `verifyLoadedPlugins()` */
+  private _dynamicPluginsConfig: DynamicPluginsConfig | null = null;
+  /** Artifacts this instance last applied or found deployed */
+  private _appliedArtifacts: DeploymentArtifacts | null = null;
+  /** Configurations replaced by `reconfigure()`, most recent last */
+  private _previousConfigs: DeploymentConfig[] = [];
+  /** Chart and images the last deploy resolved its version to */
+  private _installed: InstalledVersion | null = null;
+  /** Plugin verification token, read from or generated for `rhdh-secrets` once */
+  private _verificationToken: string | null = null;
 
   constructor(namespace: string) {
     this.deploymentConfig = this._buildDeploymentConfig({ namespace });
     this.rhdhUrl = this._buildBaseUrl();
   }
 
-  async deploy(options?: { timeout?: number | null }): Promise<void> {
+  async deploy(options?: {
+    timeout?: number | null;
+    force?: boolean;
+  }): Promise<void> {
     // Default 600s, custom number to override, null to skip and let consumer control the timeout
     const timeout = options?.timeout === undefined ? 600_000 : options.timeout;
     if (timeout !== null) {
@@ -48,30 +135,7 @@ export class RHDHDeployment {
 
     const executed = await runOnce(
       `deploy-${this.deploymentConfig.namespace}`,
-      async () => {
-        this._log("Starting RHDH deployment...");
-        this._log("RHDH Base URL: " + this.rhdhUrl);
-        console.table(this.deploymentConfig);
-
-        await this.k8sClient.createNamespaceIfNotExists(
-          this.deploymentConfig.namespace,
-        );
-
-        await this._applyAppConfig();
-        await this._applySecrets();
-
-        if (this.deploymentConfig.method === "helm") {
-          const isUpgrade = await this._deploymentExists();
-          await this._deployWithHelm(this.deploymentConfig.valueFile);
-          if (isUpgrade) {
-            await this.scaleDownAndRestart(); // Restart as helm does not monitor config changes
-          }
-        } else {
-          await this._applyDynamicPlugins();
-          await this._deployWithOperator(this.deploymentConfig.subscription);
-        }
-        await this.waitUntilReady();
-      },
+      () => this._deploy(options?.force ?? false),
     );
 
     if (!executed) {
@@ -81,16 +145,547 @@ export class RHDHDeployment {
     }
   }
 
-  private async _applyAppConfig(): Promise<void> {
-    const authConfig = AUTH_CONFIG_PATHS[this.deploymentConfig.auth];
-    const appConfigYaml = await mergeYamlFilesIfExists(
+  /**
+   * Upgrade-path scenario: installs `from`, runs `seed`, then upgrades in
+   * place to `to` and waits until ready, so tests can assert that catalog
+   * entities, RBAC roles and plugin data survived. Helm runs `helm upgrade`;
+   * the operator is reinstalled at the target version and reconciles the
+   * existing Backstage CR. An RHDH already in the namespace is torn down
+   * first, since installing `from` over a newer version would be a downgrade.
+   */
+  async deployUpgrade(options: UpgradeOptions): Promise<void> {
+    const timeout = options.timeout === undefined ? 1_200_000 : options.timeout;
+    if (timeout !== null) {
+      test.setTimeout(timeout);
+    }
+    const { from } = options;
+    const to = options.to ?? this.deploymentConfig.version;
+    const namespace = this.deploymentConfig.namespace;
+    if (from === to) {
+      throw new Error(
+        `deployUpgrade() needs two different versions, got "${from}" twice`,
+      );
+    }
+
+    const executed = await runOnce(`upgrade-${namespace}`, async () => {
+      if (await this._deploymentExists()) {
+        this._log(`Tearing down the existing RHDH in ${namespace}...`);
+        await this.teardown();
+        await this.k8sClient.createNamespaceIfNotExists(namespace);
+      }
+
+      this._log(`Upgrade path: installing ${from}...`);
+      await this._switchVersion(from);
+      await this._deploy(true);
+
+      if (options.seed) {
+        this._log(`Seeding ${from} before the upgrade...`);
+        await options.seed(this);
+      }
+
+      this._log(`Upgrade path: upgrading ${from} → ${to}...`);
+      await this._switchVersion(to);
+      await this._deploy(true);
+      this._log(`Upgrade path ${from} → ${to} completed`);
+    });
+
+    if (!executed) {
+      this._log(
+        `Upgrade ${from} → ${to} already completed for namespace "${namespace}", skipping`,
+      );
+    }
+    this._annotate(
+      "rhdh-upgrade",
+      `${from} → ${to} (${this.deploymentConfig.method})`,
+    );
+  }
+
+  /**
+   * Point the deployment at `version`. With the operator, the operator itself
+   * is (re)installed at that version; when RHDH is already running, waits for
+   * the operator to roll out the new images.
+   */
+  private async _switchVersion(version: string): Promise<void> {
+    this.deploymentConfig = { ...this.deploymentConfig, version };
+    this._installed = null;
+    if (this.deploymentConfig.method !== "operator") return;
+
+    if (process.env.SKIP_OPERATOR_INSTALLATION === "true") {
+      throw new Error(
+        "Operator upgrade paths reinstall the RHDH operator per version; unset SKIP_OPERATOR_INSTALLATION",
+      );
+    }
+    const namespace = this.deploymentConfig.namespace;
+    const before = await this.k8sClient.getDeploymentImages(
+      namespace,
+      this._labelSelector,
+    );
+    await installRHDHOperatorVersion(version);
+    if (before.length === 0) return;
+
+    const deadline = Date.now() + 600_000;
+    while (Date.now() < deadline) {
+      const current = await this.k8sClient.getDeploymentImages(
+        namespace,
+        this._labelSelector,
+      );
+      if (current.join() !== before.join()) {
+        this._log(`Operator rolled out ${current.join(", ")}`);
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10_000));
+    }
+    throw new Error(
+      `RHDH operator ${version} did not roll out new images in ${namespace} within 600s (still ${before.join(", ")})`,
+    );
+  }
+
+  private async _deploy(force: boolean): Promise<void> {
+    this._log("Starting RHDH deployment...");
+    this._log("RHDH Base URL: " + this.rhdhUrl);
+    console.table(this.deploymentConfig);
+
+    await this.k8sClient.createNamespaceIfNotExists(
+      this.deploymentConfig.namespace,
+    );
+
+    const artifacts = await this._buildArtifacts();
+    const installed = await this._resolveInstalledVersion(artifacts);
+    const configHash = computeConfigHash(artifacts, installed);
+    if (!force && (await this._isUpToDate(configHash))) {
+      this._log(
+        `Configuration unchanged (hash ${configHash.slice(0, 12)}) and pods healthy, skipping apply/restart`,
+      );
+      this._appliedArtifacts = artifacts;
+      return;
+    }
+    if (this.deploymentConfig.verifyPluginArtifacts) {
+      await this._verifyPluginArtifacts();
+    }
+    // Drop the marker first so a failed rollout is never mistaken for a
+    // healthy one on the next run.
+    await this.k8sClient.deleteConfigMap(
+      CONFIG_HASH_CONFIGMAP,
+      this.deploymentConfig.namespace,
+    );
+
+    if (artifacts.databaseManifest) {
+      await this._deployStandaloneDatabase(artifacts.databaseManifest);
+    }
+    await this._applyAppConfig(artifacts.appConfig);
+    await this._applySecrets(artifacts.secrets);
+
+    if (artifacts.method === "helm") {
+      const isUpgrade = await this._deploymentExists();
+      await this._deployWithHelm(
+        artifacts.helmValues,
+        artifacts.localChart,
+        installed.chart,
+      );
+      if (isUpgrade) {
+        await this.scaleDownAndRestart(); // Restart as helm does not monitor config changes
+      }
+    } else {
+      await this._applyDynamicPlugins(artifacts.dynamicPlugins);
+      await this._deployWithOperator(artifacts.backstageCR);
+    }
+    await this.waitUntilReady();
+    if (this.deploymentConfig.verifyPlugins) {
+      await this._verifyPluginsAfterDeploy(this.deploymentConfig.verifyPlugins);
+    }
+
+    await this.k8sClient.applyConfigMapFromObject(
+      CONFIG_HASH_CONFIGMAP,
+      { hash: configHash },
+      this.deploymentConfig.namespace,
+    );
+    this._appliedArtifacts = artifacts;
+    await this._reportMirrorRewrites();
+    await this._reportPluginResolution();
+  }
+
+  /**
+   * Merge `options` onto the current configuration of the running instance
+   * and re-apply only what changed: the app-config ConfigMap, the secrets,
+   * and the Helm release or dynamic-plugins ConfigMap. RHDH is restarted
+   * when secrets or plugins changed (see `restart`), then waited for.
+   *
+   * Every call can be undone with `restoreConfiguration()`. The namespace is
+   * shared by the project's workers, so run reconfiguring tests serially.
+   *
+   * @returns The parts that changed
+   */
+  async reconfigure(options: ReconfigureOptions): Promise<ArtifactChange[]> {
+    const current = this.deploymentConfig;
+    const before = this._appliedArtifacts ?? (await this._buildArtifacts());
+    // Recorded before applying, so a failed apply can still be restored
+    this._previousConfigs.push(current);
+    this.deploymentConfig = {
+      ...current,
+      appConfigLayers: [
+        ...current.appConfigLayers,
+        ...configLayers(options.appConfig),
+      ],
+      secretsLayers: [
+        ...current.secretsLayers,
+        ...configLayers(options.secrets),
+      ],
+      dynamicPluginsLayers: [
+        ...current.dynamicPluginsLayers,
+        ...configLayers(options.dynamicPlugins),
+      ],
+    };
+    return await this._applyChanges(before, options.restart ?? "auto");
+  }
+
+  /** Number of `reconfigure()` calls `restoreConfiguration()` can undo */
+  get reconfigureSteps(): number {
+    return this._previousConfigs.length;
+  }
+
+  /**
+   * Undo the last `steps` `reconfigure()` calls (all of them by default),
+   * re-applying the earlier configuration in one go.
+   *
+   * @returns The parts that changed
+   */
+  async restoreConfiguration(
+    steps: number = this._previousConfigs.length,
+  ): Promise<ArtifactChange[]> {
+    if (steps <= 0 || this._previousConfigs.length === 0) return [];
+    const index = Math.max(this._previousConfigs.length - steps, 0);
+    const [target] = this._previousConfigs.splice(index);
+    const before = this._appliedArtifacts ?? (await this._buildArtifacts());
+    this.deploymentConfig = target;
+    return await this._applyChanges(before, "auto");
+  }
+
+  /** Applies the parts of the current configuration that differ from `before`. */
+  private async _applyChanges(
+    before: DeploymentArtifacts,
+    restart: NonNullable<ReconfigureOptions["restart"]>,
+  ): Promise<ArtifactChange[]> {
+    const namespace = this.deploymentConfig.namespace;
+    const after = await this._buildArtifacts();
+    const changes = changedArtifacts(before, after);
+    if (changes.length === 0 && restart !== "always") {
+      this._log("Configuration unchanged, nothing to re-apply");
+      this._appliedArtifacts = after;
+      return changes;
+    }
+    this._log(`Re-applying ${changes.join(", ") || "nothing"} in ${namespace}`);
+    await this.k8sClient.deleteConfigMap(CONFIG_HASH_CONFIGMAP, namespace);
+
+    if (changes.includes("appConfig")) {
+      await this._applyAppConfig(after.appConfig);
+    }
+    if (changes.includes("secrets")) await this._applySecrets(after.secrets);
+    this._installed ??= await this._resolveInstalledVersion(after);
+    if (after.method === "helm" && changes.includes("helmValues")) {
+      await this._deployWithHelm(
+        after.helmValues,
+        after.localChart,
+        this._installed.chart,
+      );
+    }
+    if (after.method === "operator") {
+      if (changes.includes("dynamicPlugins")) {
+        await this._applyDynamicPlugins(after.dynamicPlugins);
+      }
+      if (changes.includes("backstageCR")) {
+        await this._deployWithOperator(after.backstageCR);
+      }
+    }
+
+    // Secrets are read as env vars and plugins installed by the init
+    // container, so both need new pods; app-config is watched on disk, once
+    // the kubelet has synced the mounted file
+    if (
+      restart === "always" ||
+      (restart === "auto" &&
+        (changes.some((change) => change !== "appConfig") ||
+          !(await this._waitForMountedAppConfig(after.appConfig))))
+    ) {
+      await this.scaleDownAndRestart();
+    }
+    await this.waitUntilReady();
+
+    await this.k8sClient.applyConfigMapFromObject(
+      CONFIG_HASH_CONFIGMAP,
+      { hash: computeConfigHash(after, this._installed) },
+      namespace,
+    );
+    this._appliedArtifacts = after;
+    return changes;
+  }
+
+  /**
+   * Wait until every running RHDH container sees `expected` in its mounted
+   * `app-config-rhdh.yaml`. The kubelet syncs updated ConfigMaps into pods
+   * after up to about a minute. Returns false when the file cannot be
+   * compared or does not update in time: `subPath` mounts never do.
+   */
+  private async _waitForMountedAppConfig(
+    expected: Record<string, unknown>,
+    timeoutMs: number = 120_000,
+  ): Promise<boolean> {
+    const namespace = this.deploymentConfig.namespace;
+    const mounts = await this.k8sClient.getConfigMapMounts(
+      namespace,
+      this._labelSelector,
+      "app-config-rhdh",
+    );
+    if (mounts.length === 0 || mounts.some((mount) => mount.subPath)) {
+      this._log("Mounted app-config is not updated in place, restarting");
+      return false;
+    }
+
+    this._log("Waiting for the mounted app-config to update...");
+    // Same serialization as the ConfigMap written by applyConfigMapFromObject
+    const expectedContent = yaml.dump(expected);
+    const deadline = Date.now() + timeoutMs;
+    const pending = new Set(mounts);
+    while (pending.size > 0) {
+      for (const mount of pending) {
+        const content = await this.k8sClient.readPodFile(
+          namespace,
+          mount.pod,
+          mount.container,
+          path.posix.join(mount.mountPath, "app-config-rhdh.yaml"),
+        );
+        if (content === expectedContent) pending.delete(mount);
+      }
+      if (pending.size === 0) break;
+      if (Date.now() > deadline) {
+        this._log(
+          `Mounted app-config not updated after ${timeoutMs / 1000}s, restarting`,
+        );
+        return false;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+    }
+    return true;
+  }
+
+  /**
+   * Writes every artifact `deploy()` would apply to `outDir` without touching
+   * a cluster: the app-config ConfigMap, the envsubst'ed Secret, and either the
+   * final Helm values file or the dynamic-plugins ConfigMap plus Backstage CR.
+   *
+   * Note: the rendered Secret holds substituted values — keep `outDir` out of
+   * version control unless the environment only carries placeholders.
+   *
+   * @returns Paths of the files written, in apply order
+   */
+  async render(options: RenderOptions): Promise<string[]> {
+    const { outDir } = options;
+    const namespace = this.deploymentConfig.namespace;
+    const written: string[] = [];
+    const write = (fileName: string, content: string) => {
+      const filePath = path.join(outDir, fileName);
+      fs.outputFileSync(filePath, content);
+      written.push(filePath);
+    };
+
+    this._log(`Rendering RHDH manifests for ${namespace} to ${outDir}...`);
+    const artifacts = await this._buildArtifacts();
+
+    write(
+      "app-config-rhdh.yaml",
+      yaml.dump(
+        this._configMapManifest("app-config-rhdh", artifacts.appConfig),
+        { lineWidth: -1 },
+      ),
+    );
+    write(
+      "rhdh-secrets.yaml",
+      yaml.dump(
+        {
+          apiVersion: "v1",
+          kind: "Secret",
+          metadata: { name: "rhdh-secrets", namespace },
+          stringData: artifacts.secrets.stringData,
+        },
+        { lineWidth: -1 },
+      ),
+    );
+    if (artifacts.databaseManifest) {
+      write("database.yaml", artifacts.databaseManifest);
+    }
+
+    if (artifacts.method === "helm") {
+      write("value-file.yaml", artifacts.helmValues);
+    } else {
+      write(
+        "dynamic-plugins.yaml",
+        yaml.dump(
+          this._configMapManifest("dynamic-plugins", artifacts.dynamicPlugins),
+          { lineWidth: -1 },
+        ),
+      );
+      write(
+        "backstage-cr.yaml",
+        yaml.dump(artifacts.backstageCR, { lineWidth: -1 }),
+      );
+    }
+
+    const rewrites = getRegistryMirror().rewrites;
+    if (rewrites.length > 0) {
+      write("registry-mirror-report.txt", formatMirrorReport(rewrites) + "\n");
+    }
+    if (this.pluginResolution) {
+      write(
+        "plugin-resolution.txt",
+        formatResolutionTrace(this.pluginResolution) + "\n",
+      );
+    }
+
+    this._log(`Rendered ${written.length} file(s) to ${outDir}`);
+    return written;
+  }
+
+  /** Same ConfigMap shape `KubernetesClientHelper.applyConfigMapFromObject` applies. */
+  private _configMapManifest(
+    name: string,
+    data: Record<string, unknown>,
+  ): Record<string, unknown> {
+    return {
+      apiVersion: "v1",
+      kind: "ConfigMap",
+      metadata: { name, namespace: this.deploymentConfig.namespace },
+      data: { [name + ".yaml"]: yaml.dump(data) },
+    };
+  }
+
+  /**
+   * Builds every artifact `deploy()` applies, once, so `deploy()`, `render()`
+   * and the config hash all see exactly the same content.
+   */
+  private async _buildArtifacts(): Promise<DeploymentArtifacts> {
+    const appConfig = await this._buildAppConfig();
+    const secrets = await this._buildSecrets();
+    const { database, namespace } = this.deploymentConfig;
+    const databaseManifest =
+      database?.type === "standalone"
+        ? standalonePostgresManifest(namespace, database)
+        : undefined;
+
+    if (this.deploymentConfig.method === "helm") {
+      return {
+        method: "helm",
+        appConfig,
+        secrets,
+        databaseManifest,
+        helmValues: await this._buildHelmValues(
+          this.deploymentConfig.valueFile,
+        ),
+        localChart: this.deploymentConfig.chart
+          ? resolveLocalChart(this.deploymentConfig.chart)
+          : undefined,
+      };
+    }
+    return {
+      method: "operator",
+      appConfig,
+      secrets,
+      databaseManifest,
+      dynamicPlugins: await this._buildDynamicPluginsConfig(),
+      backstageCR: await this._buildBackstageCR(
+        this.deploymentConfig.subscription,
+      ),
+    };
+  }
+
+  /**
+   * What the requested version currently resolves to: the Helm chart version
+   * (or local chart digest) and the RHDH image, so a newer build published
+   * under the same version (`next`, `1.8`) is not mistaken for the deployed
+   * one. An image override replaces the image lookup.
+   */
+  private async _resolveInstalledVersion(
+    artifacts: DeploymentArtifacts,
+  ): Promise<InstalledVersion> {
+    const { version, images } = this.deploymentConfig;
+    let chart: string | undefined;
+    if (artifacts.method === "helm") {
+      chart = artifacts.localChart
+        ? `sha256:${artifacts.localChart.digest}`
+        : await resolveChartVersion(version, this.registryClient);
+    }
+
+    const imageRefs = [images?.backstage, images?.installDynamicPlugins].filter(
+      (image): image is string => Boolean(image),
+    );
+    if (!images?.backstage) {
+      try {
+        const digest = await this.registryClient.getDigest(
+          RHDH_IMAGE_REPOSITORY,
+          version,
+        );
+        if (digest) imageRefs.push(`${RHDH_IMAGE_REPOSITORY}@${digest}`);
+      } catch (error) {
+        // The chart version still pins Helm deploys; the hash just covers less
+        this._log(
+          `Could not resolve the ${RHDH_IMAGE_REPOSITORY}:${version} digest: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+    this._installed = { version, chart, images: imageRefs };
+    return this._installed;
+  }
+
+  /**
+   * True when the hash stored by the last successful deploy matches and the
+   * RHDH pods are currently ready.
+   */
+  private async _isUpToDate(configHash: string): Promise<boolean> {
+    const data = await this.k8sClient.getConfigMapData(
+      CONFIG_HASH_CONFIGMAP,
+      this.deploymentConfig.namespace,
+    );
+    const stored = data?.[`${CONFIG_HASH_CONFIGMAP}.yaml`];
+    if (!stored) return false;
+
+    const { hash } = (yaml.load(stored) ?? {}) as { hash?: string };
+    if (hash !== configHash) {
+      this._log("Configuration changed since last deploy, applying...");
+      return false;
+    }
+    return await this.k8sClient.arePodsReady(
+      this.deploymentConfig.namespace,
+      this._labelSelector,
+    );
+  }
+
+  private async _buildAppConfig(): Promise<Record<string, unknown>> {
+    const auth = getAuthProvider(this.deploymentConfig.auth);
+    let appConfig = await mergeYamlFilesIfExists([
+      DEFAULT_CONFIG_PATHS.appConfig,
+    ]);
+    appConfig = await mergeConfigLayers(
+      appConfig,
       [
-        DEFAULT_CONFIG_PATHS.appConfig,
-        authConfig.appConfig,
-        this.deploymentConfig.appConfig,
+        ...configLayers(auth.appConfig),
+        ...existingPaths(this.deploymentConfig.appConfig),
+        ...this.deploymentConfig.appConfigLayers,
       ],
-      authConfig.mergeStrategy,
+      this,
+      auth.mergeStrategy,
     );
+    const { database, verifyPlugins } = this.deploymentConfig;
+    if (database) {
+      appConfig = deepMerge(appConfig, databaseAppConfig(database));
+    }
+    if (!verifyPlugins) return appConfig;
+    // Keep any externalAccess entries the workspace configured
+    return deepMerge(appConfig, pluginVerificationAppConfig(), {
+      arrayMergeStrategy: "concat",
+    });
+  }
+
+  private async _applyAppConfig(
+    appConfigYaml: Record<string, unknown>,
+  ): Promise<void> {
     this._logBoxen("App Config", appConfigYaml);
 
     await this.k8sClient.applyConfigMapFromObject(
@@ -100,15 +695,22 @@ export class RHDHDeployment {
     );
   }
 
-  private async _applySecrets(): Promise<void> {
-    const authConfig = AUTH_CONFIG_PATHS[this.deploymentConfig.auth];
+  private async _buildSecrets(): Promise<{
+    stringData?: Record<string, string>;
+  }> {
+    const authLayers = configLayers(
+      getAuthProvider(this.deploymentConfig.auth).secrets,
+    );
     const secretsPaths = [
       DEFAULT_CONFIG_PATHS.secrets,
-      authConfig.secrets,
+      ...authLayers.filter((layer) => typeof layer === "string"),
       ...(this.deploymentConfig.useNewFrontendSystem
         ? [DEFAULT_CONFIG_PATHS.newFrontendSystem.secrets]
         : []),
       this.deploymentConfig.secrets,
+      ...this.deploymentConfig.secretsLayers.filter(
+        (layer) => typeof layer === "string",
+      ),
     ];
     const secretsYaml = await mergeYamlFilesIfExists(secretsPaths);
 
@@ -116,13 +718,55 @@ export class RHDHDeployment {
     // with control characters in secrets (e.g., private keys with newlines)
     const substituted = cloneDeepWith(secretsYaml, (value: unknown) => {
       if (typeof value === "string") return envsubst(value);
-    });
+    }) as { stringData?: Record<string, string> };
+
+    // Object and function layers hold runtime values already, so they are
+    // merged into stringData after envsubst
+    substituted.stringData = (await mergeConfigLayers(
+      substituted.stringData ?? {},
+      [...authLayers, ...this.deploymentConfig.secretsLayers].filter(
+        (layer) => typeof layer !== "string",
+      ),
+      this,
+    )) as Record<string, string>;
+
+    if (this.deploymentConfig.verifyPlugins) {
+      substituted.stringData = {
+        ...substituted.stringData,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        PLUGIN_VERIFICATION_TOKEN: await this._pluginVerificationToken(),
+      };
+    }
+    if (this.deploymentConfig.database) {
+      substituted.stringData = {
+        ...substituted.stringData,
+        ...databaseSecrets(
+          this.deploymentConfig.namespace,
+          this.deploymentConfig.database,
+        ),
+      };
+    }
+    return substituted;
+  }
 
-    const secretPayload = substituted as Record<string, unknown>;
+  /** Applies the standalone PostgreSQL and waits until it accepts connections. */
+  private async _deployStandaloneDatabase(manifest: string): Promise<void> {
+    const namespace = this.deploymentConfig.namespace;
+    this._log(`Deploying standalone PostgreSQL in ${namespace}...`);
+    await this.k8sClient.applyManifests(manifest, namespace);
+    await this.k8sClient.waitForStatefulSetReady(
+      namespace,
+      STANDALONE_DB_NAME,
+      300,
+    );
+  }
 
+  private async _applySecrets(secrets: {
+    stringData?: Record<string, string>;
+  }): Promise<void> {
     await this.k8sClient.applySecretFromObject(
       "rhdh-secrets",
-      secretPayload as { stringData?: Record<string, string> },
+      secrets,
       this.deploymentConfig.namespace,
     );
   }
@@ -139,16 +783,23 @@ export class RHDHDeployment {
   private async _mergeBaseConfigs(
     userConfigPath?: string,
   ): Promise<Record<string, unknown>> {
-    const authConfig = AUTH_CONFIG_PATHS[this.deploymentConfig.auth];
-    const paths = [
-      DEFAULT_CONFIG_PATHS.dynamicPlugins,
-      authConfig.dynamicPlugins,
-      ...(this.deploymentConfig.useNewFrontendSystem
-        ? [DEFAULT_CONFIG_PATHS.newFrontendSystem.dynamicPlugins]
-        : []),
-      ...(userConfigPath ? [userConfigPath] : []),
-    ];
-    return await mergeYamlFilesIfExists(paths, RHDHDeployment.pluginMergeOpts);
+    const auth = getAuthProvider(this.deploymentConfig.auth);
+    const base = await mergeYamlFilesIfExists(
+      [DEFAULT_CONFIG_PATHS.dynamicPlugins],
+      RHDHDeployment.pluginMergeOpts,
+    );
+    return await mergeConfigLayers(
+      base,
+      [
+        ...configLayers(auth.dynamicPlugins),
+        ...(this.deploymentConfig.useNewFrontendSystem
+          ? [DEFAULT_CONFIG_PATHS.newFrontendSystem.dynamicPlugins]
+          : []),
+        ...existingPaths(userConfigPath),
+      ],
+      this,
+      RHDHDeployment.pluginMergeOpts,
+    );
   }
 
   /**
@@ -200,12 +851,22 @@ export class RHDHDeployment {
       );
       config = await this._mergeGeneratedWithBase(generated);
     }
+    config = await mergeConfigLayers(
+      config,
+      this.deploymentConfig.dynamicPluginsLayers,
+      this,
+      RHDHDeployment.pluginMergeOpts,
+    );
 
     // Process for deployment: inject metadata (PR only) + resolve all packages to OCI
+    const trace: PluginResolutionTrace[] = [];
     let result = await processPluginsForDeployment(
       config as DynamicPluginsConfig,
       WorkspacePaths.metadataDir,
+      undefined,
+      trace,
     );
+    this.pluginResolution = trace;
 
     // Disable default plugins (PR builds only) — covers wrapper + OCI DPDY forms
     if (process.env.GIT_PR_NUMBER) {
@@ -214,12 +875,13 @@ export class RHDHDeployment {
       }) as DynamicPluginsConfig;
     }
 
+    this._dynamicPluginsConfig = result;
     return result;
   }
 
-  private async _applyDynamicPlugins(): Promise<void> {
-    const dynamicPluginsYaml = await this._buildDynamicPluginsConfig();
-
+  private async _applyDynamicPlugins(
+    dynamicPluginsYaml: Record<string, unknown>,
+  ): Promise<void> {
     this._logBoxen("Dynamic Plugins", dynamicPluginsYaml);
     await this.k8sClient.applyConfigMapFromObject(
       "dynamic-plugins",
@@ -228,13 +890,14 @@ export class RHDHDeployment {
     );
   }
 
-  private async _deployWithHelm(valueFile: string): Promise<void> {
-    const chartVersion = await this._resolveChartVersion(
-      this.deploymentConfig.version,
-    );
-    this._log(`Helm chart version resolved to: ${chartVersion}`);
+  /**
+   * Builds the final Helm values YAML: merged value files, dynamic plugins,
+   * catalog index image, with `{{inherit}}` escaped for Helm's `tpl`.
+   */
+  private async _buildHelmValues(valueFile: string): Promise<string> {
     const helmValuePaths = [
       DEFAULT_CONFIG_PATHS.helm.valueFile,
+      ...(isOpenShift() ? [] : [DEFAULT_CONFIG_PATHS.kubernetes.valueFile]),
       ...(this.deploymentConfig.useNewFrontendSystem
         ? [DEFAULT_CONFIG_PATHS.newFrontendSystem.valueFile]
         : []),
@@ -248,8 +911,33 @@ export class RHDHDeployment {
       helmValuePaths,
     )) as Record<string, Record<string, unknown>>;
 
+    // External database: the chart's POSTGRESQL_ADMIN_PASSWORD env reads
+    // `postgres-password` from this secret instead of the bundled PostgreSQL's
+    if (this.deploymentConfig.database) {
+      valueFileObject.upstream = deepMerge(valueFileObject.upstream ?? {}, {
+        postgresql: {
+          enabled: false,
+          auth: { existingSecret: "rhdh-secrets" },
+        },
+      });
+    }
+
+    if (this.deploymentConfig.images) {
+      applyImageHelmValues(valueFileObject, this.deploymentConfig.images);
+    }
+
     this._logBoxen("Value File", valueFileObject);
 
+    // Plain Kubernetes: the chart's Ingress answers on the same host the base URL uses
+    if (!isOpenShift()) {
+      const upstream = (valueFileObject.upstream ??= {});
+      const ingress = ((upstream.ingress as Record<string, unknown>) ??= {});
+      ingress.host ??= this._host;
+      if (process.env.K8S_INGRESS_CLASS) {
+        ingress.className ??= process.env.K8S_INGRESS_CLASS;
+      }
+    }
+
     // Merge dynamic plugins into the values file (including auth-specific plugins)
     if (!valueFileObject.global) {
       valueFileObject.global = {};
@@ -259,16 +947,11 @@ export class RHDHDeployment {
     // Set catalog index image if CATALOG_INDEX_IMAGE env var is provided.
     // The catalog index provides dynamic-plugins.default.yaml with default plugin
     // configurations and versions for the RHDH release.
-    const catalogIndexImage = process.env.CATALOG_INDEX_IMAGE;
+    const catalogIndexImage = this._catalogIndexImage;
     if (catalogIndexImage) {
-      const [imageRef, tag] = catalogIndexImage.split(":");
-      const firstSlash = imageRef.indexOf("/");
+      // Split on the tag colon only, so a registry port survives
       valueFileObject.global.catalogIndex = {
-        image: {
-          registry: imageRef.substring(0, firstSlash),
-          repository: imageRef.substring(firstSlash + 1),
-          tag: tag || "latest",
-        },
+        image: splitImageRef(catalogIndexImage),
       };
       this._log(`Catalog index image: ${catalogIndexImage}`);
     }
@@ -279,9 +962,105 @@ export class RHDHDeployment {
     // The RHDH chart uses `tpl` on dynamic plugin values, so {{inherit}} would be
     // interpreted as a Go template action. Escaping to {{ "{{inherit}}" }} produces
     // the literal string {{inherit}} after template rendering.
-    const valuesYaml = yaml
+    return yaml
       .dump(valueFileObject)
       .replace(/\{\{inherit\}\}/g, '{{ "{{inherit}}" }}');
+  }
+
+  /** `CATALOG_INDEX_IMAGE`, rewritten through the registry mirror rules. */
+  private get _catalogIndexImage(): string | undefined {
+    const image = process.env.CATALOG_INDEX_IMAGE;
+    return image && getRegistryMirror().rewrite(image, "CATALOG_INDEX_IMAGE");
+  }
+
+  /** Log the references `REGISTRY_MIRRORS` rewrote and attach them to the report. */
+  private async _reportMirrorRewrites(): Promise<void> {
+    const rewrites = getRegistryMirror().rewrites;
+    if (rewrites.length === 0) return;
+    const report = formatMirrorReport(rewrites);
+    this._log(`Registry mirror rewrites:\n${report}`);
+    try {
+      await test.info().attach("registry-mirror-report.txt", {
+        body: report,
+        contentType: "text/plain",
+      });
+    } catch {
+      // Outside a test (e.g. global setup) there is no report to attach to
+    }
+  }
+
+  /** Attach the plugin resolution table to the report. */
+  private async _reportPluginResolution(): Promise<void> {
+    if (!this.pluginResolution) return;
+    try {
+      await test.info().attach("plugin-resolution.txt", {
+        body: formatResolutionTrace(this.pluginResolution),
+        contentType: "text/plain",
+      });
+    } catch {
+      // Outside a test (e.g. global setup) there is no report to attach to
+    }
+  }
+
+  /**
+   * Look up every resolved OCI plugin artifact in its registry, attach the
+   * result to the report and fail before anything is applied if any is
+   * missing.
+   */
+  private async _verifyPluginArtifacts(): Promise<void> {
+    const checks = await verifyPluginArtifacts(
+      this._dynamicPluginsConfig ?? { plugins: [] },
+    );
+    this.pluginArtifacts = checks;
+    const report = formatPluginArtifactChecks(checks);
+    this._log(`Plugin artifacts:\n${report}`);
+    try {
+      await test.info().attach("plugin-artifacts.txt", {
+        body: report,
+        contentType: "text/plain",
+      });
+    } catch {
+      // Outside a test (e.g. global setup) there is no report to attach to
+    }
+
+    const missing = checks.filter((check) => check.status === "missing");
+    if (missing.length > 0) throw new MissingPluginArtifactsError(missing);
+  }
+
+  private async _deployWithHelm(
+    valuesYaml: string,
+    localChart?: LocalChart,
+    chartVersion?: string,
+  ): Promise<void> {
+    let chartRef: string;
+    let versionArgs: string[];
+    let chartSource: string;
+    if (localChart) {
+      // An unpacked chart directory needs its subcharts (backstage, postgresql) vendored
+      if (
+        localChart.kind === "directory" &&
+        !fs.existsSync(path.join(localChart.path, "charts"))
+      ) {
+        await $`helm dependency build ${localChart.path}`;
+      }
+      chartRef = localChart.path;
+      versionArgs = [];
+      chartSource = `${localChart.path} (local ${localChart.kind}, sha256:${localChart.digest.slice(0, 12)})`;
+    } else {
+      chartVersion ??= await resolveChartVersion(
+        this.deploymentConfig.version,
+        this.registryClient,
+      );
+      this._log(`Helm chart version resolved to: ${chartVersion}`);
+      chartRef = getRegistryMirror().rewrite(
+        process.env.CHART_URL || CHART_URL,
+        "CHART_URL",
+      );
+      versionArgs = ["--version", chartVersion];
+      chartSource = `${chartRef}:${chartVersion}`;
+    }
+    this._log(`Helm chart: ${chartSource}`);
+    this._annotate("rhdh-chart", chartSource);
 
     const valueFilePath = path.join(
       os.tmpdir(),
@@ -290,7 +1069,7 @@ export class RHDHDeployment {
     fs.writeFileSync(valueFilePath, valuesYaml);
 
     await $`
-      helm upgrade redhat-developer-hub -i "${process.env.CHART_URL || CHART_URL}" --version "${chartVersion}" \
+      helm upgrade redhat-developer-hub -i "${chartRef}" ${versionArgs} \
         -f "${valueFilePath}" \
         --set global.clusterRouterBase="${process.env.K8S_CLUSTER_ROUTER_BASE}" \
         --namespace="${this.deploymentConfig.namespace}"
@@ -299,14 +1078,21 @@ export class RHDHDeployment {
     this._log(`Helm deployment completed successfully`);
   }
 
-  private async _deployWithOperator(subscription: string): Promise<void> {
+  /**
+   * Builds the Backstage CR: merged subscription files with
+   * `CATALOG_INDEX_IMAGE` injected into the install-dynamic-plugins container.
+   */
+  private async _buildBackstageCR(
+    subscription: string,
+  ): Promise<Record<string, unknown>> {
     const subscriptionObject = (await mergeYamlFilesIfExists([
       DEFAULT_CONFIG_PATHS.operator.subscription,
+      ...(isOpenShift() ? [] : [DEFAULT_CONFIG_PATHS.kubernetes.subscription]),
       subscription,
     ])) as Record<string, Record<string, Record<string, unknown>>>;
 
     // Set catalog index image if CATALOG_INDEX_IMAGE env var is provided.
-    const catalogIndexImage = process.env.CATALOG_INDEX_IMAGE;
+    const catalogIndexImage = this._catalogIndexImage;
     if (catalogIndexImage) {
       const spec = (subscriptionObject.spec ??= {});
       const app = (spec.application ??= {}) as Record<string, unknown>;
@@ -322,16 +1108,41 @@ export class RHDHDeployment {
       this._log(`Catalog index image: ${catalogIndexImage}`);
     }
 
+    if (this.deploymentConfig.database) {
+      const spec = (subscriptionObject.spec ??= {});
+      spec.database = { ...spec.database, enableLocalDb: false };
+    }
+
+    if (this.deploymentConfig.images) {
+      applyImageBackstageCR(
+        (subscriptionObject.spec ??= {}),
+        this.deploymentConfig.images,
+      );
+    }
+
     this._logBoxen("Backstage CR", subscriptionObject);
-    const subscriptionFilePath = path.join(
-      os.tmpdir(),
-      `${this.deploymentConfig.namespace}-subscription.yaml`,
-    );
-    fs.writeFileSync(subscriptionFilePath, yaml.dump(subscriptionObject));
+    return subscriptionObject;
+  }
 
-    await $`oc apply -f "${subscriptionFilePath}" -n "${this.deploymentConfig.namespace}"`;
+  private async _deployWithOperator(
+    subscriptionObject: Record<string, unknown>,
+  ): Promise<void> {
+    await this.k8sClient.applyCustomResource(
+      subscriptionObject,
+      this.deploymentConfig.namespace,
+      "backstages",
+    );
 
     this._log("Backstage CR applied successfully.");
+
+    if (!isOpenShift()) {
+      await this.k8sClient.applyIngress(
+        this.deploymentConfig.namespace,
+        "backstage-developer-hub",
+        this._host,
+        { name: "backstage-developer-hub", port: 80 },
+      );
+    }
   }
 
   private get _labelSelector(): string {
@@ -344,7 +1155,10 @@ export class RHDHDeployment {
     this._log(
       `Restarting RHDH deployment in namespace ${this.deploymentConfig.namespace}...`,
     );
-    await $`oc rollout restart deployment -l ${this._labelSelector} -n ${this.deploymentConfig.namespace}`;
+    await this.k8sClient.restartDeployments(
+      this.deploymentConfig.namespace,
+      this._labelSelector,
+    );
     this._log(
       `RHDH deployment restarted successfully in namespace ${this.deploymentConfig.namespace}`,
     );
@@ -358,9 +1172,13 @@ export class RHDHDeployment {
    */
   async scaleDownAndRestart(): Promise<void> {
     const namespace = this.deploymentConfig.namespace;
-    await $`oc scale deployment -l ${this._labelSelector} --replicas=0 -n ${namespace}`;
-    await $`oc wait --for=delete pod -l ${this._labelSelector} -n ${namespace} --timeout=120s || true`;
-    await $`oc scale deployment -l ${this._labelSelector} --replicas=1 -n ${namespace}`;
+    await this.k8sClient.scaleDeployments(namespace, this._labelSelector, 0);
+    await this.k8sClient.waitForPodsDeleted(
+      namespace,
+      this._labelSelector,
+      120,
+    );
+    await this.k8sClient.scaleDeployments(namespace, this._labelSelector, 1);
   }
 
   async waitUntilReady(timeout: number = 500): Promise<void> {
@@ -375,20 +1193,25 @@ export class RHDHDeployment {
         timeout,
       );
     } catch (error) {
+      // A failing plugin install is the usual cause; name it when it is
+      const report = await this._collectPluginInstallReport();
+      if (report?.some((entry) => entry.status === "failed")) {
+        throw new PluginInstallError(report, { cause: error });
+      }
       throw new Error(
         `RHDH deployment failed in ${namespace}: ${error instanceof Error ? error.message : error}`,
         { cause: error },
       );
     }
+    await this._collectPluginInstallReport();
 
-    // Use remaining timeout for route readiness check
+    // Use remaining timeout for the route and backend health checks
     const remaining = timeout * 1000 - (Date.now() - startTime);
-    await expect(async () => {
-      const context = await request.newContext({ ignoreHTTPSErrors: true });
-      const response = await context.get(this.rhdhUrl);
-      await context.dispose();
-      expect(response.ok()).toBeTruthy();
-    }).toPass({ timeout: Math.max(remaining, 30_000), intervals: [5_000] });
+    await waitForReadinessProbes(
+      this.rhdhUrl,
+      this.deploymentConfig.readinessProbes,
+      Math.max(remaining, 30_000),
+    );
     this._log(`RHDH is ready in ${namespace}`);
   }
 
@@ -396,95 +1219,100 @@ export class RHDHDeployment {
     await this.k8sClient.deleteNamespace(this.deploymentConfig.namespace);
   }
 
-  private async _deploymentExists(): Promise<boolean> {
-    try {
-      await $`oc get deployment redhat-developer-hub -n ${this.deploymentConfig.namespace} --no-headers 2>/dev/null`;
-      return true;
-    } catch {
-      return false;
+  /**
+   * Plugins enabled in the processed dynamic plugins config that the running
+   * instance did not load, according to the dynamic-plugins-info endpoint.
+   * An empty array means everything configured is loaded.
+   *
+   * Authenticates with `options.token` if given, else the verification token
+   * registered by `verifyPlugins`, else a guest token.
+   */
+  async verifyLoadedPlugins(options?: {
+    token?: string;
+  }): Promise<PluginEntry[]> {
+    const token =
+      options?.token ??
+      (this.deploymentConfig.verifyPlugins
+        ? await this._pluginVerificationToken()
+        : await getGuestToken(this.rhdhUrl));
+    if (!token) {
+      throw new Error(
+        "verifyLoadedPlugins() needs a token: pass { token }, enable guest auth, or configure verifyPlugins",
+      );
     }
+    const config =
+      this._dynamicPluginsConfig ??
+      ((await this._buildDynamicPluginsConfig()) as DynamicPluginsConfig);
+    const loaded = await fetchLoadedPlugins(this.rhdhUrl, token);
+    return findMissingPlugins(config, loaded);
   }
 
-  private async _resolveChartVersion(version: string): Promise<string> {
-    let resolvedVersion = version;
+  private async _pluginVerificationToken(): Promise<string> {
+    this._verificationToken ??= await pluginVerificationToken(
+      this.k8sClient,
+      this.deploymentConfig.namespace,
+    );
+    return this._verificationToken;
+  }
 
-    // Handle "next" tag by looking up the corresponding version from downstream image
-    if (version === "next") {
-      resolvedVersion = await this._resolveVersionFromNextTag();
-      this._log(`Resolved "next" tag to version: ${resolvedVersion}`);
+  private async _verifyPluginsAfterDeploy(
+    mode: PluginVerificationMode,
+  ): Promise<void> {
+    const missing = await this.verifyLoadedPlugins();
+    if (missing.length === 0) {
+      this._log("All configured dynamic plugins are loaded");
+      return;
     }
-
-    // Semantic versions (e.g., 1.2, 1.10)
-    if (/^(\d+(\.\d+)?)$/.test(resolvedVersion)) {
-      const response = await fetch(
-        "https://quay.io/api/v1/repository/rhdh/chart/tag/?onlyActiveTags=true&limit=600",
+    const list = missing.map((entry) => entry.package).join(", ");
+    if (mode === "fail") {
+      throw new Error(
+        `Dynamic plugins enabled in config but not loaded: ${list}`,
       );
-
-      if (!response.ok)
-        throw new Error(
-          `Failed to fetch chart versions: ${response.statusText}`,
-        );
-
-      const data = (await response.json()) as { tags: Array<{ name: string }> };
-      const matching = data.tags
-        .map((t) => t.name)
-        .filter((name) => name.startsWith(`${resolvedVersion}-`))
-        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
-
-      const latest = matching.at(-1);
-      if (!latest)
-        throw new Error(`No chart version found for ${resolvedVersion}`);
-      return latest;
     }
-
-    // CI build versions (e.g., 1.2.3-CI)
-    if (resolvedVersion.endsWith("CI")) return resolvedVersion;
-
-    throw new Error(`Invalid Helm chart version format: "${version}"`);
+    this._log(`Dynamic plugins enabled in config but not loaded: ${list}`);
+    this._annotate("plugins-not-loaded", list);
   }
 
   /**
-   * Resolve the semantic version from the "next" tag by looking up the
-   * downstream image (rhdh-hub-rhel9) and finding tags with the same digest.
+   * Parse the install-dynamic-plugins init container log of the current pod
+   * into `pluginInstallReport` and attach it to the Playwright report.
+   * Best effort: returns null when the log cannot be read.
    */
-  private async _resolveVersionFromNextTag(): Promise<string> {
-    // Fetch all active tags in a single API call
-    const response = await fetch(
-      "https://quay.io/api/v1/repository/rhdh/rhdh-hub-rhel9/tag/?onlyActiveTags=true&limit=75",
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image tags: ${response.statusText}`);
+  private async _collectPluginInstallReport(): Promise<
+    PluginInstallEntry[] | null
+  > {
+    let log: string | null;
+    try {
+      log = await this.k8sClient.getContainerLog(
+        this.deploymentConfig.namespace,
+        this._labelSelector,
+        INSTALL_DYNAMIC_PLUGINS_CONTAINER,
+      );
+    } catch (error) {
+      this._log(
+        `Could not read ${INSTALL_DYNAMIC_PLUGINS_CONTAINER} log: ${error instanceof Error ? error.message : error}`,
+      );
+      return null;
     }
+    if (log === null) return null;
 
-    // Use Record to avoid snake_case linting issues with Quay API response
-    const data = (await response.json()) as {
-      tags: Array<Record<string, unknown>>;
-    };
-
-    // Find the "next" tag and get its digest
-    const nextTag = data.tags.find((t) => t["name"] === "next");
-    if (!nextTag) {
-      throw new Error('No "next" tag found in rhdh-hub-rhel9 repository');
+    this.pluginInstallReport = parsePluginInstallLog(log);
+    try {
+      await test.info().attach("plugin-install-report.txt", {
+        body: formatPluginInstallReport(this.pluginInstallReport),
+        contentType: "text/plain",
+      });
+    } catch {
+      // Outside a test (e.g. global setup) there is no report to attach to
     }
+    return this.pluginInstallReport;
+  }
 
-    const digest = nextTag["manifest_digest"] as string;
-    this._log(`"next" tag digest: ${digest}`);
-
-    // Find semantic version tag (e.g., "1.10") with the same digest
-    const semanticVersionTag = data.tags.find(
-      (t) =>
-        t["manifest_digest"] === digest &&
-        /^\d+\.\d+$/.test(t["name"] as string),
+  private async _deploymentExists(): Promise<boolean> {
+    return await this.k8sClient.deploymentExists(
+      this.deploymentConfig.namespace,
+      this._deploymentName,
     );
-
-    if (!semanticVersionTag) {
-      throw new Error(
-        `Could not find semantic version tag for "next" (digest: ${digest})`,
-      );
-    }
-
-    return semanticVersionTag["name"] as string;
   }
 
   private _buildDeploymentConfig(input: DeploymentOptions): DeploymentConfig {
@@ -502,15 +1330,35 @@ export class RHDHDeployment {
       (namespace.endsWith("-app-next") ||
         process.env.USE_NEW_FRONTEND_SYSTEM === "true");
 
+    const appConfig = splitConfigInput(
+      input.appConfig,
+      WorkspacePaths.appConfig,
+    );
+    const secrets = splitConfigInput(input.secrets, WorkspacePaths.secrets);
+    const dynamicPlugins = splitConfigInput(
+      input.dynamicPlugins,
+      WorkspacePaths.dynamicPlugins,
+    );
+
     const base: DeploymentConfigBase = {
       version,
       namespace,
       auth: input.auth ?? "keycloak",
-      appConfig: input.appConfig ?? WorkspacePaths.appConfig,
-      secrets: input.secrets ?? WorkspacePaths.secrets,
-      dynamicPlugins: input.dynamicPlugins ?? WorkspacePaths.dynamicPlugins,
+      appConfig: appConfig.path,
+      secrets: secrets.path,
+      dynamicPlugins: dynamicPlugins.path,
+      appConfigLayers: appConfig.layers,
+      secretsLayers: secrets.layers,
+      dynamicPluginsLayers: dynamicPlugins.layers,
       disablePlugins: input.disablePlugins ?? [],
       useNewFrontendSystem,
+      verifyPlugins: input.verifyPlugins,
+      verifyPluginArtifacts:
+        input.verifyPluginArtifacts ??
+        process.env.RHDH_VERIFY_PLUGIN_ARTIFACTS === "true",
+      readinessProbes: input.readinessProbes ?? [],
+      database: input.database,
+      images: input.images,
     };
 
     if (method === "helm") {
@@ -518,6 +1366,7 @@ export class RHDHDeployment {
         ...base,
         method,
         valueFile: input.valueFile ?? WorkspacePaths.valueFile,
+        chart: input.chart ?? process.env.RHDH_CHART_PATH,
       };
     } else if (method === "operator") {
       return {
@@ -540,12 +1389,20 @@ export class RHDHDeployment {
     );
   }
 
+  /** Name of the RHDH Deployment (and of its Route/Ingress). */
+  private get _deploymentName(): string {
+    return this.deploymentConfig.method === "helm"
+      ? "redhat-developer-hub"
+      : "backstage-developer-hub";
+  }
+
+  /** Host RHDH is exposed on: the OpenShift Route host, or the Ingress host on plain Kubernetes. */
+  private get _host(): string {
+    return `${this._deploymentName}-${this.deploymentConfig.namespace}.${process.env.K8S_CLUSTER_ROUTER_BASE}`;
+  }
+
   private _buildBaseUrl(): string {
-    const prefix =
-      this.deploymentConfig.method === "helm"
-        ? "redhat-developer-hub"
-        : "backstage-developer-hub";
-    const baseUrl = `https://${prefix}-${this.deploymentConfig.namespace}.${process.env.K8S_CLUSTER_ROUTER_BASE}`;
+    const baseUrl = `${getIngressScheme()}://${this._host}`;
     process.env.RHDH_BASE_URL = baseUrl;
     return baseUrl;
   }
@@ -554,6 +1411,15 @@ export class RHDHDeployment {
     console.log("[RHDHDeployment]", ...args);
   }
 
+  /** Add a Playwright test annotation; a no-op outside a test. */
+  private _annotate(type: string, description: string): void {
+    try {
+      test.info().annotations.push({ type, description });
+    } catch {
+      // Outside a test there is nothing to annotate
+    }
+  }
+
   private _logBoxen(title: string, data: unknown): void {
     const content = yaml.dump(data, { lineWidth: -1 });
     console.log(`\n┌─ ${title} ${"─".repeat(60)}`);
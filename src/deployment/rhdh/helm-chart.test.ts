@@ -0,0 +1,58 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { resolveLocalChart } from "./helm-chart.js";
+
+describe("resolveLocalChart", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "helm-chart-"));
+    fs.mkdirSync(path.join(dir, "backstage", "templates"), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, "backstage", "Chart.yaml"),
+      "name: backstage\n",
+    );
+    fs.writeFileSync(
+      path.join(dir, "backstage", "templates", "a.yaml"),
+      "kind: A\n",
+    );
+    fs.writeFileSync(path.join(dir, "backstage-1.0.0.tgz"), "packaged");
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("accepts a chart directory and changes its digest when a file changes", () => {
+    const chart = resolveLocalChart(path.join(dir, "backstage"));
+    assert.strictEqual(chart.kind, "directory");
+    assert.ok(path.isAbsolute(chart.path));
+
+    fs.writeFileSync(
+      path.join(dir, "backstage", "templates", "a.yaml"),
+      "kind: B\n",
+    );
+    assert.notStrictEqual(
+      resolveLocalChart(path.join(dir, "backstage")).digest,
+      chart.digest,
+    );
+  });
+
+  it("accepts a packaged chart", () => {
+    const chart = resolveLocalChart(path.join(dir, "backstage-1.0.0.tgz"));
+    assert.strictEqual(chart.kind, "tarball");
+    assert.match(chart.digest, /^[0-9a-f]{64}$/);
+  });
+
+  it("rejects missing paths and directories without Chart.yaml", () => {
+    assert.throws(
+      () => resolveLocalChart(path.join(dir, "missing")),
+      /Local Helm chart not found/,
+    );
+    assert.throws(
+      () => resolveLocalChart(path.join(dir, "backstage", "templates")),
+      /no Chart.yaml/,
+    );
+  });
+});
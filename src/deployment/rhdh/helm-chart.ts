@@ -0,0 +1,69 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+/** A Helm chart on disk: an unpacked chart directory or a packaged tarball. */
+export type LocalChart = {
+  /** Absolute path passed to `helm upgrade` */
+  path: string;
+  kind: "directory" | "tarball";
+  /** sha256 of the tarball, or of every file path and content in the directory */
+  digest: string;
+};
+
+function listFiles(dir: string): string[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+    })
+    .sort();
+}
+
+function digestDirectory(dir: string): string {
+  const hash = crypto.createHash("sha256");
+  for (const file of listFiles(dir)) {
+    hash.update(path.relative(dir, file)).update("\0");
+    hash.update(fs.readFileSync(file)).update("\0");
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Validate a local chart path and compute its content digest, so editing the
+ * chart changes the deployment's config hash.
+ */
+export function resolveLocalChart(chartPath: string): LocalChart {
+  const absolute = path.resolve(chartPath);
+  if (!fs.existsSync(absolute)) {
+    throw new Error(`Local Helm chart not found: ${absolute}`);
+  }
+
+  if (fs.statSync(absolute).isDirectory()) {
+    if (!fs.existsSync(path.join(absolute, "Chart.yaml"))) {
+      throw new Error(
+        `${absolute} is not a Helm chart directory (no Chart.yaml)`,
+      );
+    }
+    return {
+      path: absolute,
+      kind: "directory",
+      digest: digestDirectory(absolute),
+    };
+  }
+
+  if (!/\.(tgz|tar\.gz)$/.test(absolute)) {
+    throw new Error(
+      `Local Helm chart must be a chart directory or a .tgz package: ${absolute}`,
+    );
+  }
+  return {
+    path: absolute,
+    kind: "tarball",
+    digest: crypto
+      .createHash("sha256")
+      .update(fs.readFileSync(absolute))
+      .digest("hex"),
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert";
+import { applyImageBackstageCR, applyImageHelmValues } from "./images.js";
+
+type Values = Record<string, Record<string, unknown>>;
+
+describe("applyImageHelmValues", () => {
+  it("sets upstream.backstage.image and pull secrets", () => {
+    const values: Values = { upstream: { backstage: { replicas: 1 } } };
+    applyImageHelmValues(values, {
+      backstage: "quay.io/me/rhdh-hub:dev",
+      pullSecrets: ["my-pull-secret"],
+    });
+    assert.deepStrictEqual(values.upstream.backstage, {
+      replicas: 1,
+      image: {
+        registry: "quay.io",
+        repository: "me/rhdh-hub",
+        tag: "dev",
+        pullSecrets: ["my-pull-secret"],
+      },
+    });
+  });
+
+  it("resolves a locally built image without a registry to docker.io", () => {
+    const values: Values = {};
+    applyImageHelmValues(values, { backstage: "rhdh-hub:dev" });
+    assert.deepStrictEqual(values.upstream.backstage, {
+      image: {
+        registry: "docker.io",
+        repository: "library/rhdh-hub",
+        tag: "dev",
+      },
+    });
+  });
+
+  it("replaces the image of a declared install-dynamic-plugins init container", () => {
+    const values: Values = {
+      upstream: {
+        backstage: {
+          initContainers: [
+            { name: "install-dynamic-plugins", image: "old" },
+            { name: "other", image: "other" },
+          ],
+        },
+      },
+    };
+    applyImageHelmValues(values, { installDynamicPlugins: "quay.io/me/idp:1" });
+    assert.deepStrictEqual(
+      (values.upstream.backstage as Record<string, unknown>).initContainers,
+      [
+        { name: "install-dynamic-plugins", image: "quay.io/me/idp:1" },
+        { name: "other", image: "other" },
+      ],
+    );
+  });
+
+  it("explains that an undeclared init container cannot be patched", () => {
+    assert.throws(
+      () => applyImageHelmValues({}, { installDynamicPlugins: "quay.io/x:1" }),
+      /declare upstream\.backstage\.initContainers/,
+    );
+  });
+});
+
+describe("applyImageBackstageCR", () => {
+  const original = process.env.REGISTRY_MIRRORS;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.REGISTRY_MIRRORS;
+    else process.env.REGISTRY_MIRRORS = original;
+  });
+
+  it("sets spec.application image and imagePullSecrets", () => {
+    const spec: Values = { application: { replicas: 1 } };
+    applyImageBackstageCR(spec, {
+      backstage: "quay.io/me/rhdh-hub:dev",
+      pullSecrets: ["my-pull-secret"],
+    });
+    assert.deepStrictEqual(spec.application, {
+      replicas: 1,
+      image: "quay.io/me/rhdh-hub:dev",
+      imagePullSecrets: ["my-pull-secret"],
+    });
+    assert.strictEqual(spec.deployment, undefined);
+  });
+
+  it("patches a separate install-dynamic-plugins image by container name", () => {
+    const spec: Values = {
+      deployment: {
+        patch: {
+          spec: {
+            template: {
+              spec: { initContainers: [{ name: "other", image: "other" }] },
+            },
+          },
+        },
+      },
+    };
+    applyImageBackstageCR(spec, { installDynamicPlugins: "quay.io/me/idp:1" });
+    assert.deepStrictEqual(
+      (
+        spec.deployment as {
+          patch: { spec: { template: { spec: { initContainers: unknown } } } };
+        }
+      ).patch.spec.template.spec.initContainers,
+      [
+        { name: "other", image: "other" },
+        { name: "install-dynamic-plugins", image: "quay.io/me/idp:1" },
+      ],
+    );
+  });
+
+  it("rewrites images through the registry mirror rules", () => {
+    process.env.REGISTRY_MIRRORS = '{"quay.io/me": "mirror.lab:5000/me"}';
+    const spec: Values = {};
+    applyImageBackstageCR(spec, { backstage: "quay.io/me/rhdh-hub:dev" });
+    assert.strictEqual(
+      spec.application.image,
+      "mirror.lab:5000/me/rhdh-hub:dev",
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { deepMerge } from "../../utils/merge-yamls.js";
+import {
+  getRegistryMirror,
+  splitImageRef,
+} from "../../utils/registry-mirror.js";
+import { INSTALL_DYNAMIC_PLUGINS_CONTAINER } from "./plugin-install-report.js";
+import type { ImageOverrides } from "./types.js";
+
+type Values = Record<string, unknown>;
+type Container = { name?: string; image?: string };
+
+/** The override images, rewritten through the registry mirror rules. */
+function mirrored(images: ImageOverrides): ImageOverrides {
+  const mirror = getRegistryMirror();
+  return {
+    ...images,
+    backstage:
+      images.backstage && mirror.rewrite(images.backstage, "images.backstage"),
+    installDynamicPlugins:
+      images.installDynamicPlugins &&
+      mirror.rewrite(
+        images.installDynamicPlugins,
+        "images.installDynamicPlugins",
+      ),
+  };
+}
+
+/**
+ * Apply image overrides to merged Helm values. The chart's
+ * install-dynamic-plugins init container follows `upstream.backstage.image`,
+ * so a separate init image can only be set on an `initContainers` list the
+ * value files already declare: Helm replaces lists instead of merging them.
+ */
+export function applyImageHelmValues(
+  values: Record<string, Values>,
+  images: ImageOverrides,
+): void {
+  const { backstage, installDynamicPlugins, pullSecrets } = mirrored(images);
+  const image: Values = {
+    ...(backstage ? splitImageRef(backstage) : {}),
+    ...(pullSecrets?.length ? { pullSecrets } : {}),
+  };
+  values.upstream = deepMerge(values.upstream ?? {}, {
+    backstage: { image },
+  });
+
+  if (!installDynamicPlugins) return;
+  const initContainers = (
+    (values.upstream as Values).backstage as { initContainers?: Container[] }
+  ).initContainers;
+  const initContainer = initContainers?.find(
+    (c) => c.name === INSTALL_DYNAMIC_PLUGINS_CONTAINER,
+  );
+  if (!initContainer) {
+    throw new Error(
+      `images.installDynamicPlugins needs the value file to declare upstream.backstage.initContainers ` +
+        `with a "${INSTALL_DYNAMIC_PLUGINS_CONTAINER}" entry (Helm replaces lists, so it cannot be patched in). ` +
+        `Set only images.backstage to use one image for both.`,
+    );
+  }
+  initContainer.image = installDynamicPlugins;
+}
+
+/**
+ * Apply image overrides to a Backstage CR spec. `spec.application.image` is
+ * used by every container, init containers included; a different
+ * install-dynamic-plugins image goes through a strategic-merge deployment patch.
+ */
+export function applyImageBackstageCR(
+  spec: Record<string, Values>,
+  images: ImageOverrides,
+): void {
+  const { backstage, installDynamicPlugins, pullSecrets } = mirrored(images);
+  spec.application = {
+    ...spec.application,
+    ...(backstage ? { image: backstage } : {}),
+    ...(pullSecrets?.length ? { imagePullSecrets: pullSecrets } : {}),
+  };
+
+  if (!installDynamicPlugins) return;
+  spec.deployment = deepMerge(
+    spec.deployment ?? {},
+    {
+      patch: {
+        spec: {
+          template: {
+            spec: {
+              initContainers: [
+                {
+                  name: INSTALL_DYNAMIC_PLUGINS_CONTAINER,
+                  image: installDynamicPlugins,
+                },
+              ],
+            },
+          },
+        },
+      },
+      // Keep other patched init containers; match them by name like Kubernetes does
+    },
+    { arrayMergeStrategy: { byKey: "name" } },
+  );
+}
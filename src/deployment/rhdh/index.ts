@@ -1,2 +1,44 @@
 export { RHDHDeployment } from "./deployment.js";
+export {
+  PluginInstallError,
+  parsePluginInstallLog,
+  formatPluginInstallReport,
+} from "./plugin-install-report.js";
+export {
+  findMissingPlugins,
+  fetchLoadedPlugins,
+  pluginKeyFromPackageRef,
+  type LoadedPlugin,
+} from "./plugin-verification.js";
+export { resolveLocalChart, type LocalChart } from "./helm-chart.js";
+export type {
+  AppConfig,
+  AuthProviderConfig,
+  CatalogLocation,
+  ConfigInput,
+  ConfigLayer,
+  DynamicPlugin,
+  DynamicPluginsConfigLayer,
+  FrontendPluginConfig,
+  MountPoint,
+  ProxyEndpoint,
+  SecretsLayer,
+} from "./app-config.js";
+export {
+  resolveChartVersion,
+  resolveNextVersion,
+} from "./version-resolution.js";
+export { type ArtifactChange } from "./config-hash.js";
+export {
+  registerAuthProvider,
+  getAuthProvider,
+  listAuthProviders,
+  type AuthProviderDefinition,
+} from "./auth-providers.js";
+export {
+  deployMicrosoftOidcMock,
+  DEFAULT_OIDC_MOCK_IMAGE,
+  MICROSOFT_OIDC_MOCK_NAME,
+  type MicrosoftOidcMockOptions,
+} from "./microsoft-oidc-mock.js";
 export * from "./types.js";
@@ -0,0 +1,84 @@
+import fs from "fs";
+import yaml from "js-yaml";
+import { KubernetesClientHelper } from "../../utils/kubernetes-client.js";
+import { isOpenShift } from "../../utils/cluster-flavor.js";
+import { envsubst } from "../../utils/common.js";
+import { getRegistryMirror } from "../../utils/registry-mirror.js";
+import { MICROSOFT_OIDC_MOCK_PATHS } from "./constants.js";
+
+/** Name of the mock's Deployment, Service and Route/Ingress. */
+export const MICROSOFT_OIDC_MOCK_NAME = "microsoft-oidc-mock";
+
+export const DEFAULT_OIDC_MOCK_IMAGE =
+  "ghcr.io/navikt/mock-oauth2-server:2.1.10";
+
+export type MicrosoftOidcMockOptions = {
+  /** mock-oauth2-server image. Defaults to {@link DEFAULT_OIDC_MOCK_IMAGE}. */
+  image?: string;
+  k8sClient?: KubernetesClientHelper;
+};
+
+/**
+ * Deploy an OIDC mock (mock-oauth2-server, interactive login) into
+ * `namespace`, expose it and set `AUTH_MICROSOFT_MOCK_URL`, which switches
+ * the `microsoft` auth preset to it. Call before `rhdh.deploy()`.
+ *
+ * @returns The mock's base URL
+ */
+export async function deployMicrosoftOidcMock(
+  namespace: string,
+  options: MicrosoftOidcMockOptions = {},
+): Promise<string> {
+  const k8sClient = options.k8sClient ?? new KubernetesClientHelper();
+  const image = getRegistryMirror().rewrite(
+    options.image ?? DEFAULT_OIDC_MOCK_IMAGE,
+    "microsoft oidc mock",
+  );
+
+  await k8sClient.createNamespaceIfNotExists(namespace);
+  await k8sClient.applyManifests(
+    envsubst(fs.readFileSync(MICROSOFT_OIDC_MOCK_PATHS.manifest, "utf-8"), {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      OIDC_MOCK_IMAGE: image,
+    }),
+    namespace,
+  );
+
+  let url: string;
+  if (isOpenShift()) {
+    // Plain HTTP like the Keycloak route: the issuer is derived from the request URL
+    await k8sClient.applyManifests(
+      yaml.dump({
+        apiVersion: "route.openshift.io/v1",
+        kind: "Route",
+        metadata: { name: MICROSOFT_OIDC_MOCK_NAME },
+        spec: {
+          to: { kind: "Service", name: MICROSOFT_OIDC_MOCK_NAME },
+          port: { targetPort: "http" },
+        },
+      }),
+      namespace,
+    );
+    url = await k8sClient.getRouteLocation(namespace, MICROSOFT_OIDC_MOCK_NAME);
+  } else {
+    await k8sClient.applyIngress(
+      namespace,
+      MICROSOFT_OIDC_MOCK_NAME,
+      `${MICROSOFT_OIDC_MOCK_NAME}-${namespace}.${process.env.K8S_CLUSTER_ROUTER_BASE}`,
+      { name: MICROSOFT_OIDC_MOCK_NAME, port: "http" },
+    );
+    url = await k8sClient.getIngressLocation(
+      namespace,
+      MICROSOFT_OIDC_MOCK_NAME,
+    );
+  }
+
+  await k8sClient.waitForPodsWithFailureDetection(
+    namespace,
+    `app=${MICROSOFT_OIDC_MOCK_NAME}`,
+    300,
+  );
+  process.env.AUTH_MICROSOFT_MOCK_URL = url;
+  console.log(`[MicrosoftOidcMock] Ready at ${url}`);
+  return url;
+}
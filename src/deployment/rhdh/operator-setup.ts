@@ -1,4 +1,5 @@
 import { $ } from "../../utils/bash.js";
+import { isOpenShift } from "../../utils/cluster-flavor.js";
 
 export async function installRHDHOperator(): Promise<void> {
   if (process.env.INSTALLATION_METHOD !== "operator") {
@@ -10,7 +11,24 @@ export async function installRHDHOperator(): Promise<void> {
     return;
   }
 
-  const version = process.env.RHDH_VERSION ?? "next";
+  await installRHDHOperatorVersion(process.env.RHDH_VERSION ?? "next");
+}
+
+/**
+ * Install the RHDH operator catalog source and subscription for `version`
+ * ("next" or a semantic version). Re-running it with a newer version upgrades
+ * the operator in place.
+ */
+export async function installRHDHOperatorVersion(
+  version: string,
+): Promise<void> {
+  if (!isOpenShift()) {
+    throw new Error(
+      "RHDH operator installation uses the OpenShift catalog source (OLM) and is not supported on plain Kubernetes. " +
+        "Install the operator yourself and set SKIP_OPERATOR_INSTALLATION=true.",
+    );
+  }
+
   const isSemanticVersion = /^\d+(\.\d+)?$/.test(version);
   const branch = isSemanticVersion ? `release-${version}` : "main";
 
@@ -43,7 +61,7 @@ export async function installRHDHOperator(): Promise<void> {
   try {
     await $`
       timeout 300 bash -c '
-        while ! oc get crd backstages.rhdh.redhat.com >/dev/null 2>&1; do
+        while ! kubectl get crd backstages.rhdh.redhat.com >/dev/null 2>&1; do
           echo "Waiting for Backstage CRD to be created..."
           sleep 10
         done
@@ -57,5 +75,5 @@ export async function installRHDHOperator(): Promise<void> {
     );
   }
 
-  console.log("RHDH operator installation completed");
+  console.log(`RHDH operator installation completed (${version})`);
 }
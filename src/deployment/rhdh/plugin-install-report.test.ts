@@ -0,0 +1,125 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  PluginInstallError,
+  formatPluginInstallReport,
+  parsePluginInstallLog,
+} from "./plugin-install-report.js";
+
+const DIGEST = `sha256:${"ab12".repeat(16)}`;
+const TECHDOCS =
+  "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-plugin-techdocs:bs_1.42.5__1.0.0!backstage-plugin-techdocs";
+const KEYCLOAK =
+  "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-catalog-backend-module-keycloak:pr_1980__3.16.0!backstage-community-plugin-catalog-backend-module-keycloak";
+
+describe("parsePluginInstallLog", () => {
+  it("reports installed, skipped and failed plugins with digest and error", () => {
+    const log = [
+      "======= Skipping disabled dynamic plugin ./dynamic-plugins/dist/backstage-plugin-scaffolder-backend-module-github-dynamic",
+      `======= Installing dynamic plugin ${TECHDOCS}`,
+      `\t==> Copying image ${TECHDOCS} to local filesystem`,
+      `\t==> Resolved image digest ${DIGEST}`,
+      `\t==> Successfully installed dynamic plugin ${TECHDOCS}`,
+      "======= Skipping download of already installed dynamic plugin ./dynamic-plugins/dist/backstage-plugin-kubernetes-backend-dynamic",
+      `======= Installing dynamic plugin ${KEYCLOAK}`,
+      `\t==> Copying image ${KEYCLOAK} to local filesystem`,
+      'time="2025-10-18T10:00:00Z" level=fatal msg="initializing source docker://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-catalog-backend-module-keycloak:pr_1980__3.16.0: reading manifest pr_1980__3.16.0: manifest unknown"',
+      "Traceback (most recent call last):",
+      '  File "/opt/app-root/src/install-dynamic-plugins.py", line 1204, in <module>',
+      `InstallException: Error while installing plugin ${KEYCLOAK}: Failed to copy image`,
+    ].join("\n");
+
+    assert.deepStrictEqual(parsePluginInstallLog(log), [
+      {
+        packageRef:
+          "./dynamic-plugins/dist/backstage-plugin-scaffolder-backend-module-github-dynamic",
+        status: "skipped",
+      },
+      { packageRef: TECHDOCS, status: "installed", digest: DIGEST },
+      {
+        packageRef:
+          "./dynamic-plugins/dist/backstage-plugin-kubernetes-backend-dynamic",
+        status: "skipped",
+      },
+      {
+        packageRef: KEYCLOAK,
+        status: "failed",
+        error: `Error while installing plugin ${KEYCLOAK}: Failed to copy image`,
+      },
+    ]);
+  });
+
+  it("takes the digest from a digest-pinned ref", () => {
+    const ref = `oci://quay.io/rhdh/plugin@${DIGEST}!plugin`;
+    const [entry] = parsePluginInstallLog(
+      `======= Installing dynamic plugin ${ref}\n\t==> Successfully installed dynamic plugin ${ref}`,
+    );
+    assert.strictEqual(entry.digest, DIGEST);
+    assert.strictEqual(entry.status, "installed");
+  });
+
+  it("reports an integrity mismatch from an npm package", () => {
+    const ref = "@backstage-community/plugin-todo@0.2.40";
+    const [entry] = parsePluginInstallLog(
+      [
+        `======= Installing dynamic plugin ${ref}`,
+        "\t==> Grabbing package archive through `npm pack`",
+        "\t==> Verifying package integrity",
+        "InstallException: Integrity check failed for @backstage-community/plugin-todo@0.2.40: sha512 mismatch",
+      ].join("\n"),
+    );
+    assert.strictEqual(entry.status, "failed");
+    assert.match(entry.error!, /Integrity check failed/);
+  });
+
+  it("treats a plugin followed by another block as installed and a trailing unfinished one as failed", () => {
+    const entries = parsePluginInstallLog(
+      "======= Installing dynamic plugin a\n======= Installing dynamic plugin b\n\t==> Extracting package archive",
+    );
+    assert.deepStrictEqual(
+      entries.map((e) => [e.packageRef, e.status, e.error]),
+      [
+        ["a", "installed", undefined],
+        ["b", "failed", "installation did not complete"],
+      ],
+    );
+  });
+
+  it("reports plugins removed after a reconfigure without failing them", () => {
+    const removed = "/dynamic-plugins-root/backstage-community-plugin-tekton";
+    const entries = parsePluginInstallLog(
+      [
+        `======= Installing dynamic plugin ${TECHDOCS}`,
+        `\t==> Successfully installed dynamic plugin ${TECHDOCS}`,
+        `======= Removing previously installed dynamic plugin ${removed}`,
+      ].join("\n"),
+    );
+    assert.deepStrictEqual(entries, [
+      { packageRef: TECHDOCS, status: "installed" },
+      { packageRef: removed, status: "removed" },
+    ]);
+    assert.ok(!entries.some((e) => e.status === "failed"));
+  });
+
+  it("returns no entries for a log without plugin blocks", () => {
+    assert.deepStrictEqual(
+      parsePluginInstallLog("Traceback\nKeyError: 'plugins'"),
+      [],
+    );
+  });
+});
+
+describe("PluginInstallError", () => {
+  it("names the failing plugin and includes the report", () => {
+    const error = new PluginInstallError([
+      { packageRef: "a", status: "installed" },
+      { packageRef: "b", status: "failed", error: "manifest unknown" },
+    ]);
+    assert.strictEqual(error.packageRef, "b");
+    assert.match(
+      error.message,
+      /^Dynamic plugin b failed to install: manifest unknown\n/,
+    );
+    assert.ok(error.message.endsWith(formatPluginInstallReport(error.report)));
+  });
+});
@@ -0,0 +1,134 @@
+import type { PluginInstallEntry } from "./types.js";
+
+/** Init container that downloads and extracts dynamic plugins (Helm and Operator). */
+export const INSTALL_DYNAMIC_PLUGINS_CONTAINER = "install-dynamic-plugins";
+
+/**
+ * `======= Installing dynamic plugin <ref>`,
+ * `======= Skipping disabled dynamic plugin <ref>`,
+ * `======= Skipping download of already installed dynamic plugin <ref>`,
+ * `======= Removing previously installed dynamic plugin <path>`
+ */
+const BLOCK_START = /^=+\s+(.*?)\bdynamic plugin\s+(\S+)/;
+const SUCCESS = /==>\s+Successfully installed dynamic plugin/;
+const DIGEST = /sha256:[a-f0-9]{64}/;
+/** Python exceptions (InstallException, CalledProcessError…), skopeo and npm failures */
+const ERROR_LINES: RegExp[] = [
+  /^(?:[\w.]+)?(?:Exception|Error):\s+(.+)$/,
+  /level=fatal msg="?(.+?)"?$/,
+  /^npm ERR!\s+(.+)$/,
+  /^\s*[Ee]rror:\s+(.+)$/,
+];
+
+type PendingEntry = PluginInstallEntry & { done: boolean; errors: string[] };
+
+function errorMessage(line: string): string | undefined {
+  for (const pattern of ERROR_LINES) {
+    const match = line.trim().match(pattern);
+    if (match) return match[1].trim();
+  }
+  return undefined;
+}
+
+/**
+ * Parse the `install-dynamic-plugins` container log into one entry per plugin.
+ *
+ * The script handles plugins one at a time and aborts on the first error, so
+ * an error line is attributed to the plugin whose block it appears in. A
+ * plugin followed by another block installed fine even if its success line
+ * was not logged; the last plugin without a success line failed. Plugins
+ * dropped from the configuration are removed after all installs and are
+ * reported as `removed`, never as failures.
+ */
+export function parsePluginInstallLog(log: string): PluginInstallEntry[] {
+  const entries: PendingEntry[] = [];
+  let current: PendingEntry | undefined;
+
+  for (const line of log.split(/\r?\n/)) {
+    const start = line.match(BLOCK_START);
+    if (start) {
+      if (current && !current.done) current.status = "installed";
+      const skipped = /^Skipping/i.test(start[1]);
+      const removed = /^Removing/i.test(start[1]);
+      current = {
+        packageRef: start[2],
+        status: skipped ? "skipped" : removed ? "removed" : "installed",
+        done: skipped || removed,
+        errors: [],
+      };
+      const digest = start[2].match(DIGEST);
+      if (digest) current.digest = digest[0];
+      entries.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    if (SUCCESS.test(line)) {
+      current.done = true;
+      continue;
+    }
+    const digest = line.match(DIGEST);
+    if (digest && !current.digest) current.digest = digest[0];
+    const error = errorMessage(line);
+    if (error) current.errors.push(error);
+  }
+
+  return entries.map(({ done, errors, ...entry }, index) => {
+    const isLast = index === entries.length - 1;
+    if (
+      entry.status === "skipped" ||
+      entry.status === "removed" ||
+      (done && errors.length === 0)
+    ) {
+      return entry;
+    }
+    if (errors.length === 0 && !isLast) return entry;
+    return {
+      ...entry,
+      status: "failed",
+      // The exception line names the cause best; skopeo/npm output is the detail
+      error:
+        errors.find((e) => /exception|integrity/i.test(e)) ??
+        errors.at(-1) ??
+        "installation did not complete",
+    };
+  });
+}
+
+/** Plain-text table of a plugin installation report, for the Playwright report. */
+export function formatPluginInstallReport(
+  entries: PluginInstallEntry[],
+): string {
+  if (entries.length === 0) return "No dynamic plugins found in the log.";
+  const icon = { installed: "✓", skipped: "-", removed: "-", failed: "✗" };
+  return entries
+    .map((e) =>
+      [
+        `${icon[e.status]} ${e.status.padEnd(9)} ${e.packageRef}`,
+        e.digest ? `    digest: ${e.digest}` : undefined,
+        e.error ? `    error:  ${e.error}` : undefined,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    )
+    .join("\n");
+}
+
+/** A dynamic plugin failed to install; names the plugin and keeps the full report. */
+export class PluginInstallError extends Error {
+  readonly packageRef: string;
+
+  constructor(
+    readonly report: PluginInstallEntry[],
+    options?: ErrorOptions,
+  ) {
+    const failed = report.find((e) => e.status === "failed");
+    super(
+      `Dynamic plugin ${failed?.packageRef ?? "(unknown)"} failed to install: ${failed?.error ?? "unknown error"}\n` +
+        formatPluginInstallReport(report),
+      options,
+    );
+    this.name = "PluginInstallError";
+    this.packageRef = failed?.packageRef ?? "";
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  findMissingPlugins,
+  pluginKeyFromPackageRef,
+  pluginVerificationToken,
+} from "./plugin-verification.js";
+
+describe("pluginKeyFromPackageRef", () => {
+  it("uses the plugin name after ! for OCI refs", () => {
+    assert.strictEqual(
+      pluginKeyFromPackageRef(
+        "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-tech-radar:pr_12__1.0.0!backstage-community-plugin-tech-radar",
+      ),
+      "backstage-community-plugin-tech-radar",
+    );
+  });
+
+  it("uses the repository name for OCI refs without a plugin path", () => {
+    assert.strictEqual(
+      pluginKeyFromPackageRef(
+        "oci://quay.io/rhdh/backstage-plugin-techdocs@sha256:abc",
+      ),
+      "backstage-plugin-techdocs",
+    );
+  });
+
+  it("strips the -dynamic suffix of local wrapper paths", () => {
+    assert.strictEqual(
+      pluginKeyFromPackageRef(
+        "./dynamic-plugins/dist/backstage-community-plugin-3scale-backend-dynamic",
+      ),
+      "backstage-community-plugin-3scale-backend",
+    );
+  });
+
+  it("turns scoped npm packages into display names without the version", () => {
+    assert.strictEqual(
+      pluginKeyFromPackageRef("@backstage-community/plugin-todo@0.2.40"),
+      "backstage-community-plugin-todo",
+    );
+    assert.strictEqual(
+      pluginKeyFromPackageRef("@backstage-community/plugin-todo"),
+      "backstage-community-plugin-todo",
+    );
+  });
+});
+
+describe("findMissingPlugins", () => {
+  const config = {
+    includes: ["dynamic-plugins.default.yaml"],
+    plugins: [
+      {
+        package:
+          "oci://ghcr.io/org/overlays/backstage-community-plugin-tech-radar:1.0.0!backstage-community-plugin-tech-radar",
+      },
+      {
+        package:
+          "./dynamic-plugins/dist/backstage-community-plugin-tech-radar-backend-dynamic",
+        disabled: false,
+      },
+      {
+        package: "./dynamic-plugins/dist/backstage-plugin-kubernetes-dynamic",
+        disabled: true,
+      },
+    ],
+  };
+
+  it("lists enabled plugins missing from the loaded plugins", () => {
+    const missing = findMissingPlugins(config, [
+      {
+        name: "@backstage-community/plugin-tech-radar",
+        version: "1.0.0",
+        role: "frontend-plugin",
+        platform: "web",
+      },
+    ]);
+    assert.deepStrictEqual(
+      missing.map((entry) => entry.package),
+      [
+        "./dynamic-plugins/dist/backstage-community-plugin-tech-radar-backend-dynamic",
+      ],
+    );
+  });
+
+  it("matches loaded package names that keep the -dynamic suffix", () => {
+    assert.deepStrictEqual(
+      findMissingPlugins(config, [
+        { name: "@backstage-community/plugin-tech-radar" },
+        { name: "@backstage-community/plugin-tech-radar-backend-dynamic" },
+      ]),
+      [],
+    );
+  });
+});
+
+describe("pluginVerificationToken", () => {
+  const withoutOverride = async (fn: () => Promise<void>) => {
+    const saved = process.env.RHDH_PLUGIN_VERIFICATION_TOKEN;
+    delete process.env.RHDH_PLUGIN_VERIFICATION_TOKEN;
+    try {
+      await fn();
+    } finally {
+      if (saved === undefined)
+        delete process.env.RHDH_PLUGIN_VERIFICATION_TOKEN;
+      else process.env.RHDH_PLUGIN_VERIFICATION_TOKEN = saved;
+    }
+  };
+  const secretClient = (data: Record<string, string> | null | Error) => ({
+    getSecretData: async () => {
+      if (data instanceof Error) throw data;
+      return data;
+    },
+  });
+
+  it("reuses the token stored in rhdh-secrets", () =>
+    withoutOverride(async () => {
+      assert.strictEqual(
+        await pluginVerificationToken(
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          secretClient({ PLUGIN_VERIFICATION_TOKEN: "stored" }),
+          "ns-a",
+        ),
+        "stored",
+      );
+    }));
+
+  it("generates a random token when none is stored or the cluster is unreachable", () =>
+    withoutOverride(async () => {
+      const first = await pluginVerificationToken(secretClient(null), "ns-a");
+      const second = await pluginVerificationToken(
+        secretClient(new Error("connect ECONNREFUSED")),
+        "ns-a",
+      );
+      assert.match(first, /^[0-9a-f]{64}$/);
+      assert.match(second, /^[0-9a-f]{64}$/);
+      assert.notStrictEqual(first, second);
+    }));
+
+  it("prefers RHDH_PLUGIN_VERIFICATION_TOKEN", () =>
+    withoutOverride(async () => {
+      process.env.RHDH_PLUGIN_VERIFICATION_TOKEN = "override";
+      assert.strictEqual(
+        await pluginVerificationToken(
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          secretClient({ PLUGIN_VERIFICATION_TOKEN: "stored" }),
+          "ns-a",
+        ),
+        "override",
+      );
+    }));
+});
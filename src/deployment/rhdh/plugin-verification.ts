@@ -0,0 +1,159 @@
+import crypto from "crypto";
+import { request } from "@playwright/test";
+import type {
+  DynamicPluginsConfig,
+  PluginEntry,
+} from "../../utils/plugin-metadata.js";
+import type { KubernetesClientHelper } from "../../utils/kubernetes-client.js";
+
+/** Endpoint of the dynamic-plugins-info backend listing what the backend scanner loaded. */
+export const LOADED_PLUGINS_PATH = "/api/dynamic-plugins-info/loaded-plugins";
+
+/** Backend plugin the verification token is restricted to. */
+const DYNAMIC_PLUGINS_INFO_PLUGIN_ID = "dynamic-plugins-info";
+
+/** One entry of the loaded-plugins response. */
+export type LoadedPlugin = {
+  name: string;
+  version?: string;
+  role?: string;
+  platform?: string;
+};
+
+/**
+ * Plugin identity shared by config refs and loaded package names: the
+ * display name (`@scope/name` → `scope-name`) without the `-dynamic` suffix.
+ */
+function toPluginKey(name: string): string {
+  return name
+    .replace(/^@/, "")
+    .replace(/\//g, "-")
+    .replace(/-dynamic$/, "");
+}
+
+/**
+ * Key of a configured package reference:
+ * - `oci://host/repo:tag!plugin-name` → `plugin-name`
+ * - `./dynamic-plugins/dist/scope-plugin-x-dynamic` → `scope-plugin-x`
+ * - `@scope/plugin-x@1.2.3` → `scope-plugin-x`
+ */
+export function pluginKeyFromPackageRef(packageRef: string): string {
+  if (packageRef.includes("!")) {
+    return toPluginKey(packageRef.split("!").at(-1)!);
+  }
+  if (packageRef.startsWith("oci://")) {
+    const repo = packageRef
+      .replace(/[:@][^/]*$/, "")
+      .split("/")
+      .at(-1)!;
+    return toPluginKey(repo);
+  }
+  if (packageRef.startsWith(".") || packageRef.startsWith("/")) {
+    return toPluginKey(packageRef.replace(/\/+$/, "").split("/").at(-1)!);
+  }
+  // npm package, optionally versioned: strip a trailing @version (not the scope's @)
+  return toPluginKey(packageRef.replace(/(.)@[^/@]*$/, "$1"));
+}
+
+/**
+ * Plugins enabled in the processed dynamic plugins config that do not appear
+ * in the loaded-plugins list. Plugins that only come in through `includes`
+ * (e.g. `dynamic-plugins.default.yaml`) are not checked.
+ */
+export function findMissingPlugins(
+  config: DynamicPluginsConfig,
+  loaded: LoadedPlugin[],
+): PluginEntry[] {
+  const loadedKeys = new Set(loaded.map((plugin) => toPluginKey(plugin.name)));
+  return (config.plugins ?? []).filter(
+    (entry) =>
+      entry.package &&
+      entry.disabled !== true &&
+      !loadedKeys.has(pluginKeyFromPackageRef(entry.package)),
+  );
+}
+
+/** Fetch the loaded-plugins list of a running RHDH instance. */
+export async function fetchLoadedPlugins(
+  baseUrl: string,
+  token: string,
+): Promise<LoadedPlugin[]> {
+  const context = await request.newContext({ ignoreHTTPSErrors: true });
+  try {
+    const response = await context.get(`${baseUrl}${LOADED_PLUGINS_PATH}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok()) {
+      throw new Error(
+        `Could not read loaded plugins from ${baseUrl}${LOADED_PLUGINS_PATH}: HTTP ${response.status()} ${await response.text()}`,
+      );
+    }
+    return (await response.json()) as LoadedPlugin[];
+  } finally {
+    await context.dispose();
+  }
+}
+
+/**
+ * Backstage token of the guest user, or null when guest sign-in is not
+ * enabled on the instance.
+ */
+export async function getGuestToken(baseUrl: string): Promise<string | null> {
+  const context = await request.newContext({ ignoreHTTPSErrors: true });
+  try {
+    const response = await context.get(`${baseUrl}/api/auth/guest/refresh`, {
+      headers: { "X-Requested-With": "XMLHttpRequest" },
+    });
+    if (!response.ok()) return null;
+    const body = (await response.json()) as {
+      backstageIdentity?: { token?: string };
+    };
+    return body.backstageIdentity?.token ?? null;
+  } catch {
+    return null;
+  } finally {
+    await context.dispose();
+  }
+}
+
+/**
+ * Static token `deploy()` registers for plugin verification:
+ * `RHDH_PLUGIN_VERIFICATION_TOKEN`, else the token an earlier deploy stored in
+ * the namespace's `rhdh-secrets` (so the config hash stays stable between
+ * runs), else a new random one. The external access entry is restricted to
+ * the dynamic-plugins-info plugin.
+ */
+export async function pluginVerificationToken(
+  k8sClient: Pick<KubernetesClientHelper, "getSecretData">,
+  namespace: string,
+): Promise<string> {
+  const override = process.env.RHDH_PLUGIN_VERIFICATION_TOKEN;
+  if (override) return override;
+  // render() runs without a cluster, so an unreadable Secret means a new token
+  const stored = await k8sClient
+    .getSecretData("rhdh-secrets", namespace)
+    .catch(() => null);
+  return (
+    stored?.PLUGIN_VERIFICATION_TOKEN ?? crypto.randomBytes(32).toString("hex")
+  );
+}
+
+/** App-config layer granting the verification token access to loaded-plugins. */
+export function pluginVerificationAppConfig(): Record<string, unknown> {
+  return {
+    backend: {
+      auth: {
+        externalAccess: [
+          {
+            type: "static",
+            options: {
+              token: "${PLUGIN_VERIFICATION_TOKEN}",
+              subject: "rhdh-e2e-plugin-verification",
+            },
+            accessRestrictions: [{ plugin: DYNAMIC_PLUGINS_INFO_PLUGIN_ID }],
+          },
+        ],
+      },
+    },
+  };
+}
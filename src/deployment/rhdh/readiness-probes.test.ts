@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { formatProbeFailures, isProbeSatisfied } from "./readiness-probes.js";
+
+describe("isProbeSatisfied", () => {
+  it("accepts auth errors for bare plugin routes but not 404 or 5xx", () => {
+    assert.strictEqual(isProbeSatisfied("/api/catalog/entities", 200), true);
+    assert.strictEqual(isProbeSatisfied("/api/catalog/entities", 401), true);
+    assert.strictEqual(isProbeSatisfied("/api/catalog/entities", 403), true);
+    assert.strictEqual(isProbeSatisfied("/api/catalog/entities", 404), false);
+    assert.strictEqual(isProbeSatisfied("/api/catalog/entities", 503), false);
+  });
+
+  it("honours expectedStatus", () => {
+    const probe = {
+      path: "/api/orchestrator/v2/workflows/overview",
+      expectedStatus: 200,
+    };
+    assert.strictEqual(isProbeSatisfied(probe, 200), true);
+    assert.strictEqual(isProbeSatisfied(probe, 401), false);
+    assert.strictEqual(
+      isProbeSatisfied({ path: "/api/x", expectedStatus: [200, 204] }, 204),
+      true,
+    );
+  });
+});
+
+describe("formatProbeFailures", () => {
+  it("lists only the failing probes", () => {
+    assert.strictEqual(
+      formatProbeFailures([
+        { path: "/", ok: true, detail: "HTTP 200" },
+        {
+          path: "/.backstage/health/v1/readiness",
+          ok: false,
+          detail: 'HTTP 503 {"message":"Backend has not started yet"}',
+        },
+        { path: "/api/orchestrator", ok: false, detail: "HTTP 404" },
+      ]),
+      '  /.backstage/health/v1/readiness → HTTP 503 {"message":"Backend has not started yet"}\n  /api/orchestrator → HTTP 404',
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { request } from "@playwright/test";
+import type { ReadinessProbe } from "./types.js";
+
+type NormalizedProbe = {
+  path: string;
+  /** Statuses that pass; when omitted, any response except 404 and 5xx passes */
+  expectedStatus?: number[];
+  /** Backstage versions without the health service answer 404; do not wait for those */
+  notFoundIsUnsupported?: boolean;
+};
+
+export type ProbeResult = {
+  path: string;
+  ok: boolean;
+  /** e.g. `HTTP 503 {"status":"error"}` or a connection error */
+  detail: string;
+};
+
+/**
+ * Probes every RHDH readiness wait runs: the frontend bundle at the root URL
+ * plus the backend health service, which only reports ready once all backend
+ * plugins have started.
+ */
+const BUILTIN_PROBES: NormalizedProbe[] = [
+  { path: "/", expectedStatus: [200] },
+  {
+    path: "/.backstage/health/v1/readiness",
+    expectedStatus: [200],
+    notFoundIsUnsupported: true,
+  },
+  {
+    path: "/.backstage/health/v1/liveness",
+    expectedStatus: [200],
+    notFoundIsUnsupported: true,
+  },
+];
+
+function normalizeProbe(probe: ReadinessProbe): NormalizedProbe {
+  if (typeof probe === "string") return { path: probe };
+  const { path, expectedStatus } = probe;
+  return {
+    path,
+    expectedStatus:
+      expectedStatus === undefined ? undefined : [expectedStatus].flat(),
+  };
+}
+
+/**
+ * Whether a probe response counts as ready. A plugin route answering 401/403
+ * is mounted and serving, so without `expectedStatus` only 404 and 5xx fail.
+ */
+export function isProbeSatisfied(
+  probe: ReadinessProbe,
+  status: number,
+): boolean {
+  const { expectedStatus } = normalizeProbe(probe);
+  if (expectedStatus) return expectedStatus.includes(status);
+  return status !== 404 && status < 500;
+}
+
+async function runProbe(
+  baseUrl: string,
+  probe: NormalizedProbe,
+): Promise<ProbeResult> {
+  const context = await request.newContext({ ignoreHTTPSErrors: true });
+  try {
+    const response = await context.get(`${baseUrl}${probe.path}`, {
+      timeout: 10_000,
+    });
+    const status = response.status();
+    const ok =
+      (probe.notFoundIsUnsupported && status === 404) ||
+      isProbeSatisfied(probe, status);
+    const body = ok ? "" : (await response.text()).slice(0, 200);
+    return {
+      path: probe.path,
+      ok,
+      detail: `HTTP ${status}${body ? ` ${body}` : ""}`,
+    };
+  } catch (error) {
+    return {
+      path: probe.path,
+      ok: false,
+      detail:
+        error instanceof Error ? error.message.split("\n")[0] : `${error}`,
+    };
+  } finally {
+    await context.dispose();
+  }
+}
+
+/**
+ * Poll the built-in health probes and `probes` until all pass in the same
+ * round. Throws on timeout, naming each probe that was still failing.
+ */
+export async function waitForReadinessProbes(
+  baseUrl: string,
+  probes: ReadinessProbe[],
+  timeoutMs: number,
+  intervalMs: number = 5_000,
+): Promise<void> {
+  const all = [...BUILTIN_PROBES, ...probes.map(normalizeProbe)];
+  const deadline = Date.now() + timeoutMs;
+  let results: ProbeResult[];
+
+  while (true) {
+    results = await Promise.all(all.map((probe) => runProbe(baseUrl, probe)));
+    if (results.every((result) => result.ok)) return;
+    if (Date.now() + intervalMs > deadline) break;
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+
+  throw new Error(
+    `RHDH at ${baseUrl} not ready after ${Math.round(timeoutMs / 1000)}s; failing probes:\n` +
+      formatProbeFailures(results),
+  );
+}
+
+/** One `path → detail` line per failing probe. */
+export function formatProbeFailures(results: ProbeResult[]): string {
+  return results
+    .filter((result) => !result.ok)
+    .map((result) => `  ${result.path} → ${result.detail}`)
+    .join("\n");
+}
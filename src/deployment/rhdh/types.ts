@@ -1,15 +1,48 @@
+import type { RHDHDeployment } from "./deployment.js";
+import type { LocalChart } from "./helm-chart.js";
+import type {
+  AppConfig,
+  ConfigInput,
+  ConfigLayer,
+  DynamicPluginsConfigLayer,
+  SecretsLayer,
+} from "./app-config.js";
+
 export type DeploymentMethod = "helm" | "operator";
-export type AuthProvider = "guest" | "keycloak" | "github";
+/** Auth providers bundled with the package */
+export type BuiltInAuthProvider =
+  | "guest"
+  | "keycloak"
+  | "github"
+  | "microsoft"
+  | "ldap";
+/** A bundled provider, or any name passed to `registerAuthProvider()` */
+export type AuthProvider = BuiltInAuthProvider | (string & {});
 
 export type DeploymentOptions = {
   version?: string;
   namespace?: string;
   auth?: AuthProvider;
-  appConfig?: string;
-  secrets?: string;
-  dynamicPlugins?: string;
+  /**
+   * App-config YAML path, typed objects or builder functions, or a list of
+   * them. Objects and functions are merged after the file (the workspace
+   * `app-config-rhdh.yaml` when no path is given).
+   */
+  appConfig?: ConfigInput<AppConfig>;
+  /**
+   * Secrets YAML paths and/or `stringData` layers. Files are merged and
+   * envsubst'ed first; objects and functions are merged after, as is.
+   */
+  secrets?: ConfigInput<SecretsLayer>;
+  /** Dynamic plugins YAML path and/or layers, like `appConfig`; plugins merge by `package`. */
+  dynamicPlugins?: ConfigInput<DynamicPluginsConfigLayer>;
   method?: DeploymentMethod;
   valueFile?: string;
+  /**
+   * Local Helm chart directory or `.tgz` to install instead of `CHART_URL`
+   * (Helm only). Skips chart version resolution. Defaults to `RHDH_CHART_PATH`.
+   */
+  chart?: string;
   subscription?: string;
   /**
    * Default RHDH plugins to disable during PR builds (wrapper path + OCI
@@ -18,11 +51,141 @@ export type DeploymentOptions = {
   disablePlugins?: string[];
   /** When true, merge new-frontend-system (app-next) layers. When omitted, auto-detect: namespace ends with `-app-next` or `USE_NEW_FRONTEND_SYSTEM=true`. Pass false to disable. */
   useNewFrontendSystem?: boolean;
+  /**
+   * After `deploy()` is ready, check that every plugin enabled in the dynamic
+   * plugins config was loaded: `"fail"` fails the deployment, `"annotate"`
+   * adds a test annotation. Off by default.
+   */
+  verifyPlugins?: PluginVerificationMode;
+  /**
+   * Before applying anything, check that every resolved `oci://` plugin
+   * artifact exists in its registry and fail listing the missing ones.
+   * Defaults to `RHDH_VERIFY_PLUGIN_ARTIFACTS=true`.
+   */
+  verifyPluginArtifacts?: boolean;
+  /**
+   * Extra plugin API routes `waitUntilReady()` waits for, on top of the
+   * backend readiness/liveness health endpoints.
+   */
+  readinessProbes?: ReadinessProbe[];
+  /**
+   * PostgreSQL RHDH connects to instead of the chart/operator local database:
+   * a standalone instance deployed into the namespace, or an existing server.
+   */
+  database?: DatabaseOptions;
+  /**
+   * Custom RHDH images, e.g. a locally built one, set through
+   * `upstream.backstage.image` (Helm) or `spec.application` (operator).
+   */
+  images?: ImageOverrides;
 };
 
+export type ImageOverrides = {
+  /** RHDH image, e.g. `quay.io/me/rhdh-hub:dev` or `…@sha256:…`. Also used by the install-dynamic-plugins init container unless that is set. */
+  backstage?: string;
+  /** install-dynamic-plugins init container image */
+  installDynamicPlugins?: string;
+  /** Names of existing image pull Secrets in the namespace */
+  pullSecrets?: string[];
+};
+
+export type DatabaseOptions =
+  | {
+      type: "standalone";
+      /** PostgreSQL image; defaults to the public RHEL-compatible `sclorg` build. */
+      image?: string;
+      /** Serve TLS with an OpenShift service-CA certificate (OpenShift only). */
+      tls?: boolean;
+    }
+  | {
+      type: "external";
+      host: string;
+      /** @default 5432 */
+      port?: number;
+      /** Needs CREATEDB: RHDH creates one database per backend plugin. */
+      user: string;
+      password: string;
+      /**
+       * Require TLS. `ca` is a PEM string or file path; with a CA the server
+       * certificate is verified unless `rejectUnauthorized` is false.
+       */
+      tls?: boolean | { ca?: string; rejectUnauthorized?: boolean };
+    };
+
+export type PluginVerificationMode = "fail" | "annotate";
+
+/**
+ * A route probed by `waitUntilReady()`, e.g. `/api/catalog/entities`.
+ * A bare path passes on any response except 404 and 5xx (401/403 mean the
+ * plugin is mounted); `expectedStatus` narrows that.
+ */
+export type ReadinessProbe =
+  | string
+  | { path: string; expectedStatus?: number | number[] };
+
+export type UpgradeOptions = {
+  /** Version installed first, e.g. `"1.8"` */
+  from: string;
+  /** Version upgraded to in place. Defaults to the configured version. */
+  to?: string;
+  /** Runs against the `from` deployment to create state that must survive the upgrade. */
+  seed?: (rhdh: RHDHDeployment) => Promise<void>;
+  /** Playwright test timeout (ms) for both deploys; `null` leaves it to the caller. Default 1 200 000. */
+  timeout?: number | null;
+};
+
+export type ReconfigureOptions = {
+  /** App-config layers merged onto the current configuration; paths are layers too */
+  appConfig?: ConfigInput<AppConfig>;
+  /** `stringData` layers or extra secrets files */
+  secrets?: ConfigInput<SecretsLayer>;
+  /** Dynamic plugins layers, merged by `package` */
+  dynamicPlugins?: ConfigInput<DynamicPluginsConfigLayer>;
+  /**
+   * `"auto"` (default) restarts RHDH when secrets or dynamic plugins changed.
+   * For app-config-only changes it waits until the pods see the new file and
+   * leaves them to Backstage's config file watcher, restarting instead when
+   * the file is not updated in place. Use `"always"` for config read only at
+   * startup. `"never"` only applies the resources: changes that need new pods
+   * (secrets, plugins, startup-only config) stay unapplied until the next
+   * restart, and a later `deploy()` does not restart for them.
+   */
+  restart?: "auto" | "always" | "never";
+};
+
+export type RenderOptions = {
+  /** Directory the rendered manifests are written to (created if missing). */
+  outDir: string;
+};
+
+/**
+ * Everything `deploy()` applies for one configuration, built once and shared
+ * by `deploy()`, `render()` and the config hash.
+ */
+export type DeploymentArtifacts = {
+  appConfig: Record<string, unknown>;
+  secrets: { stringData?: Record<string, string> };
+  /** Standalone PostgreSQL manifests, when `database.type` is `"standalone"`. */
+  databaseManifest?: string;
+} & (
+  | {
+      method: "helm";
+      /** Final values YAML, `{{inherit}}` already escaped. */
+      helmValues: string;
+      /** Set when installing from a local chart; its digest feeds the config hash. */
+      localChart?: LocalChart;
+    }
+  | {
+      method: "operator";
+      dynamicPlugins: Record<string, unknown>;
+      backstageCR: Record<string, unknown>;
+    }
+);
+
 export type HelmDeploymentConfig = {
   method: "helm";
   valueFile: string;
+  chart?: string;
 };
 
 export type OperatorDeploymentConfig = {
@@ -37,10 +200,37 @@ export type DeploymentConfigBase = {
   appConfig: string;
   secrets: string;
   dynamicPlugins: string;
+  /** Layers merged after `appConfig`, in order */
+  appConfigLayers: Array<string | ConfigLayer<AppConfig>>;
+  secretsLayers: Array<string | ConfigLayer<SecretsLayer>>;
+  dynamicPluginsLayers: Array<string | ConfigLayer<DynamicPluginsConfigLayer>>;
   disablePlugins: string[];
   /** New frontend system (Backstage app-next / NFS shell). */
   useNewFrontendSystem: boolean;
+  verifyPlugins?: PluginVerificationMode;
+  verifyPluginArtifacts: boolean;
+  readinessProbes: ReadinessProbe[];
+  database?: DatabaseOptions;
+  images?: ImageOverrides;
 };
 
 export type DeploymentConfig = DeploymentConfigBase &
   (HelmDeploymentConfig | OperatorDeploymentConfig);
+
+export type PluginInstallStatus =
+  | "installed"
+  | "skipped"
+  /** Previously installed, no longer configured (after a reconfigure or upgrade) */
+  | "removed"
+  | "failed";
+
+/** One plugin as reported by the `install-dynamic-plugins` init container. */
+export type PluginInstallEntry = {
+  /** Package reference as logged, e.g. `oci://quay.io/org/img:tag!plugin-name` */
+  packageRef: string;
+  status: PluginInstallStatus;
+  /** `sha256:…` digest of the OCI image, when the log or the ref names one */
+  digest?: string;
+  /** Error message for failed plugins */
+  error?: string;
+};
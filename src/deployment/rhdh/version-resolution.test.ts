@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { InMemoryRegistryClient } from "../../utils/registry-client.js";
+import {
+  CHART_REPOSITORY,
+  RHDH_IMAGE_REPOSITORY,
+  resolveChartVersion,
+  resolveNextVersion,
+} from "./version-resolution.js";
+
+const registry = () =>
+  new InMemoryRegistryClient({
+    [RHDH_IMAGE_REPOSITORY]: [
+      { name: "next", digest: "sha256:b" },
+      { name: "1.10", digest: "sha256:b" },
+      { name: "1.9", digest: "sha256:a" },
+    ],
+    [CHART_REPOSITORY]: [
+      { name: "1.9-150-CI" },
+      { name: "1.10-9-CI" },
+      { name: "1.10-10-CI" },
+      { name: "1.1-99-CI" },
+    ],
+  });
+
+describe("resolveNextVersion", () => {
+  it("finds the x.y tag sharing the digest of next", async () => {
+    assert.strictEqual(await resolveNextVersion(registry()), "1.10");
+  });
+
+  it("looks digests up when the listing has none", async () => {
+    const client = new InMemoryRegistryClient({
+      [RHDH_IMAGE_REPOSITORY]: [{ name: "next" }, { name: "1.10" }],
+    });
+    client.getDigest = async (_repository, tag) =>
+      tag === "next" || tag === "1.10" ? "sha256:b" : null;
+    assert.strictEqual(await resolveNextVersion(client), "1.10");
+  });
+
+  it("fails when no semantic tag matches", async () => {
+    const client = new InMemoryRegistryClient({
+      [RHDH_IMAGE_REPOSITORY]: [{ name: "next", digest: "sha256:c" }],
+    });
+    await assert.rejects(resolveNextVersion(client), /sha256:c/);
+  });
+});
+
+describe("resolveChartVersion", () => {
+  it("picks the numerically latest x.y-N tag", async () => {
+    assert.strictEqual(
+      await resolveChartVersion("1.10", registry()),
+      "1.10-10-CI",
+    );
+  });
+
+  it("resolves next through the image repository", async () => {
+    const client = registry();
+    assert.strictEqual(await resolveChartVersion("next", client), "1.10-10-CI");
+    assert.deepStrictEqual(client.calls, [
+      `listTags ${RHDH_IMAGE_REPOSITORY}`,
+      `listTags ${CHART_REPOSITORY}`,
+    ]);
+  });
+
+  it("passes CI versions through and rejects unknown formats", async () => {
+    assert.strictEqual(
+      await resolveChartVersion("1.10.0-123-CI", registry()),
+      "1.10.0-123-CI",
+    );
+    await assert.rejects(resolveChartVersion("latest", registry()), /Invalid/);
+    await assert.rejects(resolveChartVersion("2.0", registry()), /No chart/);
+  });
+});
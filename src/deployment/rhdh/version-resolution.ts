@@ -0,0 +1,72 @@
+import type { RegistryClient } from "../../utils/registry-client.js";
+
+/** Downstream RHDH image whose `next` tag tracks the upcoming release. */
+export const RHDH_IMAGE_REPOSITORY = "rhdh/rhdh-hub-rhel9";
+
+/** Repository of the RHDH Helm chart on quay.io. */
+export const CHART_REPOSITORY = "rhdh/chart";
+
+const SEMANTIC_VERSION = /^(\d+(\.\d+)?)$/;
+
+/**
+ * Resolve the semantic version (e.g. `1.10`) the `next` image tag points to,
+ * by finding the `x.y` tag with the same manifest digest among the most
+ * recently pushed tags.
+ */
+export async function resolveNextVersion(
+  client: RegistryClient,
+): Promise<string> {
+  const tags = await client.listTags(RHDH_IMAGE_REPOSITORY, { max: 100 });
+  const digest =
+    tags.find((tag) => tag.name === "next")?.digest ??
+    (await client.getDigest(RHDH_IMAGE_REPOSITORY, "next"));
+  if (!digest) {
+    throw new Error('No "next" tag found in rhdh-hub-rhel9 repository');
+  }
+
+  for (const tag of tags) {
+    if (!/^\d+\.\d+$/.test(tag.name)) continue;
+    // The OCI distribution API lists names only; look digests up per candidate
+    const tagDigest =
+      tag.digest ?? (await client.getDigest(RHDH_IMAGE_REPOSITORY, tag.name));
+    if (tagDigest === digest) return tag.name;
+  }
+  throw new Error(
+    `Could not find semantic version tag for "next" (digest: ${digest})`,
+  );
+}
+
+/**
+ * Resolve an RHDH version to a Helm chart version:
+ * - `next` → the semantic version `next` points to, then as below
+ * - `1.10` → the latest `1.10-N` chart tag
+ * - `1.10.0-123-CI` (CI builds) → unchanged
+ */
+export async function resolveChartVersion(
+  version: string,
+  client: RegistryClient,
+): Promise<string> {
+  let resolvedVersion = version;
+  if (version === "next") {
+    resolvedVersion = await resolveNextVersion(client);
+    console.log(
+      `[RHDHDeployment] Resolved "next" tag to version: ${resolvedVersion}`,
+    );
+  }
+
+  if (SEMANTIC_VERSION.test(resolvedVersion)) {
+    const latest = (await client.listTags(CHART_REPOSITORY))
+      .map((tag) => tag.name)
+      .filter((name) => name.startsWith(`${resolvedVersion}-`))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .at(-1);
+    if (!latest) {
+      throw new Error(`No chart version found for ${resolvedVersion}`);
+    }
+    return latest;
+  }
+
+  if (resolvedVersion.endsWith("CI")) return resolvedVersion;
+
+  throw new Error(`Invalid Helm chart version format: "${version}"`);
+}
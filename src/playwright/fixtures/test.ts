@@ -1,4 +1,8 @@
-import { RHDHDeployment } from "../../deployment/rhdh/index.js";
+import {
+  RHDHDeployment,
+  type ArtifactChange,
+  type ReconfigureOptions,
+} from "../../deployment/rhdh/index.js";
 import { test as base, type TestInfo } from "@playwright/test";
 import { LoginHelper, UIhelper } from "../helpers/index.js";
 import { runOnce } from "../run-once.js";
@@ -28,6 +32,8 @@ type RHDHDeploymentTestFixtures = {
   rhdh: RHDHDeployment;
   uiHelper: UIhelper;
   loginHelper: LoginHelper;
+  /** `rhdh.reconfigure()`, undone when the test ends */
+  reconfigure: (options: ReconfigureOptions) => Promise<ArtifactChange[]>;
   autoAnnotations: void;
   // eslint-disable-next-line @typescript-eslint/naming-convention
   _coverageCollector: void;
@@ -77,6 +83,17 @@ const baseTest = base.extend<
     },
     { scope: "test" },
   ],
+  reconfigure: [
+    async ({ rhdh }, use) => {
+      // Only this test's calls: a beforeAll reconfigure stays in place. Counted
+      // by the deployment, so a call that failed before recording its step
+      // does not undo an earlier one
+      const steps = rhdh.reconfigureSteps;
+      await use((options) => rhdh.reconfigure(options));
+      await rhdh.restoreConfiguration(rhdh.reconfigureSteps - steps);
+    },
+    { scope: "test" },
+  ],
   baseURL: [
     async ({ rhdhDeploymentWorker }, use) => {
       await use(rhdhDeploymentWorker.rhdhUrl);
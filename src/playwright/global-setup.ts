@@ -8,6 +8,7 @@ import dotenv from "dotenv";
 import { resolve } from "path";
 import { KubernetesClientHelper } from "../utils/kubernetes-client.js";
 import { $ } from "../utils/bash.js";
+import { getClusterFlavor, isOpenShift } from "../utils/cluster-flavor.js";
 import { KeycloakHelper } from "../deployment/keycloak/index.js";
 import { installRHDHOperator } from "../deployment/rhdh/operator-setup.js";
 import {
@@ -17,12 +18,15 @@ import {
 } from "../deployment/keycloak/constants.js";
 import { loadLocalVaultSecrets } from "../utils/vault.js";
 
-const REQUIRED_BINARIES = ["oc", "kubectl", "helm"] as const;
+const REQUIRED_BINARIES = {
+  openshift: ["oc", "kubectl", "helm"],
+  kubernetes: ["kubectl", "helm"],
+} as const;
 
 async function checkRequiredBinaries(): Promise<void> {
   const missingBinaries: string[] = [];
 
-  for (const binary of REQUIRED_BINARIES) {
+  for (const binary of REQUIRED_BINARIES[getClusterFlavor()]) {
     try {
       await $`command -v ${binary} > /dev/null 2>&1`;
     } catch {
@@ -38,6 +42,16 @@ async function checkRequiredBinaries(): Promise<void> {
 }
 
 async function setClusterRouterBaseEnv(): Promise<void> {
+  if (!isOpenShift()) {
+    // No cluster-wide ingress config to read on plain Kubernetes
+    if (!process.env.K8S_CLUSTER_ROUTER_BASE) {
+      throw new Error(
+        "K8S_CLUSTER_ROUTER_BASE is required when CLUSTER_FLAVOR=kubernetes (e.g. 127.0.0.1.nip.io for a local kind cluster)",
+      );
+    }
+    console.log(`Cluster router base: ${process.env.K8S_CLUSTER_ROUTER_BASE}`);
+    return;
+  }
   const k8sClient = new KubernetesClientHelper();
   process.env.K8S_CLUSTER_ROUTER_BASE =
     await k8sClient.getClusterIngressDomain();
@@ -83,9 +97,10 @@ async function deployKeycloak(): Promise<void> {
 
 export default async function globalSetup(config: FullConfig): Promise<void> {
   console.log("Running global setup...");
-  await checkRequiredBinaries();
   await loadLocalVaultSecrets();
   loadDotenvFromProjects(config);
+  // After .env loading so CLUSTER_FLAVOR can come from a project's .env
+  await checkRequiredBinaries();
   await setClusterRouterBaseEnv();
   await Promise.all([installRHDHOperator(), deployKeycloak()]);
   console.log("Global setup completed successfully");
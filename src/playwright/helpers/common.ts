@@ -6,6 +6,7 @@ import { SETTINGS_PAGE_COMPONENTS } from "../page-objects/page-obj.js";
 import * as path from "path";
 import * as fs from "fs";
 import { DEFAULT_USERS } from "../../deployment/keycloak/constants.js";
+import { getAuthProvider } from "../../deployment/rhdh/auth-providers.js";
 
 export class LoginHelper {
   page: Page;
@@ -16,6 +17,18 @@ export class LoginHelper {
     this.uiHelper = new UIhelper(page);
   }
 
+  /**
+   * Sign in with the login routine of a registered auth provider, e.g.
+   * `loginHelper.login(rhdh.deploymentConfig.auth)`.
+   */
+  async login(provider: string) {
+    const { login } = getAuthProvider(provider);
+    if (!login) {
+      throw new Error(`Auth provider "${provider}" has no login routine`);
+    }
+    await login(this);
+  }
+
   async loginAsGuest() {
     await this.page.goto("/");
     await this.uiHelper.waitForLoad(240000);
@@ -370,6 +383,26 @@ export class LoginHelper {
 
     return this.handleGitHubPopupLogin(popup, username, password, twofactor);
   }
+  /**
+   * Sign in through the OIDC mock of the `microsoft` auth preset
+   * (`deployMicrosoftOidcMock()`), issuing a token for `email`.
+   */
+  async loginWithOidcMock(email: string) {
+    await this.page.goto("/");
+    await this.uiHelper.waitForLoad(240000);
+    const popupPromise = this.page.waitForEvent("popup");
+    await this.uiHelper.clickButton("Sign In");
+    const popup = await popupPromise;
+    await popup.waitForLoadState();
+    await popup.locator("input[name=username]").fill(email);
+    await popup
+      .locator("textarea[name=claims]")
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      .fill(JSON.stringify({ email, preferred_username: email }));
+    await popup.locator("input[type=submit]").click();
+    await this.page.waitForSelector("nav a", { timeout: 10_000 });
+  }
+
   async microsoftAzureLogin(username: string, password: string) {
     await this.page.goto("/");
     await this.page.waitForSelector('p:has-text("Sign in using Microsoft")');
@@ -0,0 +1,43 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  getClusterFlavor,
+  getIngressScheme,
+  isOpenShift,
+} from "./cluster-flavor.js";
+
+describe("cluster flavor", () => {
+  const saved = {
+    flavor: process.env.CLUSTER_FLAVOR,
+    scheme: process.env.K8S_INGRESS_SCHEME,
+  };
+
+  afterEach(() => {
+    if (saved.flavor === undefined) delete process.env.CLUSTER_FLAVOR;
+    else process.env.CLUSTER_FLAVOR = saved.flavor;
+    if (saved.scheme === undefined) delete process.env.K8S_INGRESS_SCHEME;
+    else process.env.K8S_INGRESS_SCHEME = saved.scheme;
+  });
+
+  it("defaults to openshift with https", () => {
+    delete process.env.CLUSTER_FLAVOR;
+    assert.strictEqual(getClusterFlavor(), "openshift");
+    assert.strictEqual(isOpenShift(), true);
+    assert.strictEqual(getIngressScheme(), "https");
+  });
+
+  it("uses http on plain kubernetes unless K8S_INGRESS_SCHEME=https", () => {
+    process.env.CLUSTER_FLAVOR = "kubernetes";
+    delete process.env.K8S_INGRESS_SCHEME;
+    assert.strictEqual(isOpenShift(), false);
+    assert.strictEqual(getIngressScheme(), "http");
+
+    process.env.K8S_INGRESS_SCHEME = "https";
+    assert.strictEqual(getIngressScheme(), "https");
+  });
+
+  it("rejects unknown flavors", () => {
+    process.env.CLUSTER_FLAVOR = "nomad";
+    assert.throws(() => getClusterFlavor(), /Invalid CLUSTER_FLAVOR "nomad"/);
+  });
+});
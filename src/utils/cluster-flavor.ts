@@ -0,0 +1,38 @@
+/**
+ * Kind of cluster the suites run against.
+ * - `openshift`: Routes, the OpenShift ingress config and the `oc` CLI are available
+ * - `kubernetes`: plain Kubernetes (kind, k3d, ...) — services are exposed via Ingress
+ */
+export type ClusterFlavor = "openshift" | "kubernetes";
+
+const CLUSTER_FLAVORS: readonly ClusterFlavor[] = ["openshift", "kubernetes"];
+
+/**
+ * Reads the cluster flavor from `CLUSTER_FLAVOR`, defaulting to `openshift`.
+ * @throws Error if `CLUSTER_FLAVOR` is set to an unknown value
+ */
+function getClusterFlavor(): ClusterFlavor {
+  const flavor = process.env.CLUSTER_FLAVOR || "openshift";
+  if (!CLUSTER_FLAVORS.includes(flavor as ClusterFlavor)) {
+    throw new Error(
+      `Invalid CLUSTER_FLAVOR "${flavor}". Use one of: ${CLUSTER_FLAVORS.join(", ")}`,
+    );
+  }
+  return flavor as ClusterFlavor;
+}
+
+function isOpenShift(): boolean {
+  return getClusterFlavor() === "openshift";
+}
+
+/**
+ * URL scheme for services exposed on the cluster. OpenShift routes terminate
+ * TLS at the router; plain Kubernetes ingresses default to HTTP since local
+ * clusters rarely have a certificate, overridable with `K8S_INGRESS_SCHEME`.
+ */
+function getIngressScheme(): "http" | "https" {
+  if (isOpenShift()) return "https";
+  return process.env.K8S_INGRESS_SCHEME === "https" ? "https" : "http";
+}
+
+export { getClusterFlavor, isOpenShift, getIngressScheme };
@@ -29,4 +29,24 @@ function isCoverageEnabled(): boolean {
   return process.env.E2E_COLLECT_COVERAGE === "true";
 }
 
-export { envsubst, requireEnv, isCoverageEnabled };
+/**
+ * Plain-text table: the first row is the header, columns are padded to their
+ * widest cell and separated by ` | `.
+ */
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  const line = (row: string[]) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join(" | ")
+      .trimEnd();
+  return [
+    line(rows[0]),
+    widths.map((width) => "-".repeat(width)).join("-|-"),
+    ...rows.slice(1).map(line),
+  ].join("\n");
+}
+
+export { envsubst, requireEnv, isCoverageEnabled, formatTable };
@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+export type RetryOptions = {
+  /** Defaults to the global `fetch` */
+  fetch?: typeof fetch;
+  /** Retries after a network error, 429 or 5xx. Default 3. */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further one. Default 1000. */
+  retryDelayMs?: number;
+};
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * `fetch` that retries network errors, 429 and 5xx with exponential backoff.
+ * Other responses, including 4xx, are returned for the caller to interpret.
+ * `label` starts the error thrown once the retries are used up, e.g.
+ * `Registry request`.
+ */
+export function retryingFetch(
+  label: string,
+  options: RetryOptions = {},
+): (url: string, init?: RequestInit) => Promise<Response> {
+  const fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+  const retries = options.retries ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+
+  return async (url, init) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetchFn(url, init);
+        if (!isRetryable(response.status) || attempt >= retries) {
+          return response;
+        }
+      } catch (error) {
+        if (attempt >= retries) {
+          throw new Error(
+            `${label} to ${url} failed after ${attempt + 1} attempt(s)`,
+            { cause: error },
+          );
+        }
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelayMs * 2 ** attempt),
+      );
+    }
+  };
+}
+
+/**
+ * Text entries on disk, one file per key, used while younger than `ttlMs`,
+ * so parallel workers and repeated runs share them.
+ */
+export class DiskCache {
+  constructor(
+    private readonly _dir: string,
+    private readonly _ttlMs: number,
+  ) {}
+
+  /** The entry under `key`, or null when it is missing, stale or unreadable. */
+  get(key: string): string | null {
+    const file = this._file(key);
+    try {
+      if (Date.now() - fs.statSync(file).mtimeMs < this._ttlMs) {
+        return fs.readFileSync(file, "utf-8");
+      }
+    } catch {
+      // Missing or unreadable entry: the caller loads it
+    }
+    return null;
+  }
+
+  set(key: string, value: string): void {
+    const file = this._file(key);
+    fs.mkdirSync(this._dir, { recursive: true });
+    // Write then rename so a concurrent reader never sees a partial file
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, value);
+    fs.renameSync(tmp, file);
+  }
+
+  private _file(key: string): string {
+    return path.join(
+      this._dir,
+      crypto.createHash("sha256").update(key).digest("hex").slice(0, 32),
+    );
+  }
+}
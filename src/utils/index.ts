@@ -1,9 +1,80 @@
 export { envsubst, requireEnv } from "./common.js";
+export {
+  getClusterFlavor,
+  isOpenShift,
+  getIngressScheme,
+  type ClusterFlavor,
+} from "./cluster-flavor.js";
 export { $, runQuietUnlessFailure } from "./bash.js";
 export {
   mergeYamlFiles,
   mergeYamlFilesIfExists,
   mergeYamlFilesToFile,
 } from "./merge-yamls.js";
-export { KubernetesClientHelper } from "./kubernetes-client.js";
+export {
+  KubernetesClientHelper,
+  ReadinessError,
+  formatReadinessTimeline,
+  type ApplyManifestsOptions,
+  type ConfigMapMount,
+  type ReadinessTimelineEntry,
+} from "./kubernetes-client.js";
 export { WorkspacePaths } from "./workspace-paths.js";
+export {
+  QuayRegistryClient,
+  OciRegistryClient,
+  CachedRegistryClient,
+  InMemoryRegistryClient,
+  createRegistryClient,
+  type RegistryClient,
+  type RegistryTag,
+  type ListTagsOptions,
+  type RegistryClientOptions,
+  type RegistryCacheOptions,
+} from "./registry-client.js";
+export {
+  RegistryMirror,
+  getRegistryMirror,
+  parseMirrorRules,
+  formatMirrorReport,
+  splitImageRef,
+  type MirrorRule,
+  type MirrorRewrite,
+} from "./registry-mirror.js";
+export {
+  lintMetadataDirectory,
+  lintMetadataFiles,
+  lintPackageDocument,
+  isValidOciReference,
+  formatMetadataIssues,
+  KNOWN_BACKSTAGE_ROLES,
+  type MetadataIssue,
+} from "./metadata-lint.js";
+export {
+  MetadataHttpClient,
+  getMetadataHttpClient,
+  setMetadataHttpClient,
+  type MetadataHttpOptions,
+  type MetadataResponse,
+} from "./metadata-http.js";
+export {
+  GitHubSourceProvider,
+  GitLabSourceProvider,
+  GitSourceProvider,
+  createSourceProvider,
+  parseRepositoryUrl,
+  type SourceProvider,
+  type SourceProviderKind,
+  type SourceRepository,
+  type SourceFile,
+} from "./source-provider.js";
+export {
+  verifyPluginArtifacts,
+  parseOciPackage,
+  formatPluginArtifactChecks,
+  MissingPluginArtifactsError,
+  type OciArtifactRef,
+  type PluginArtifactCheck,
+  type PluginArtifactStatus,
+  type VerifyPluginArtifactsOptions,
+} from "./plugin-artifacts.js";
@@ -0,0 +1,548 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { KubernetesClientHelper, ReadinessError } from "./kubernetes-client.js";
+
+type RecordedRequest = {
+  method: string;
+  url: string;
+  contentType?: string;
+  body: unknown;
+};
+
+/**
+ * Minimal fake API server: records every request and answers from a route
+ * table keyed by "METHOD path". Unknown routes get a Kubernetes-style 404.
+ * `?watch=true` requests are handed to the stream handler for their path.
+ */
+function startFakeApiServer(
+  routes: Record<string, (body: unknown) => unknown>,
+  requests: RecordedRequest[],
+  watches: Record<string, (res: http.ServerResponse) => void> = {},
+): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const url = req.url ?? "";
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({
+        method: req.method ?? "",
+        url,
+        contentType: req.headers["content-type"],
+        body,
+      });
+      const watch = url.includes("watch=true") && watches[url.split("?")[0]];
+      res.setHeader("Content-Type", "application/json");
+      if (watch) {
+        watch(res);
+        return;
+      }
+      const handler = routes[`${req.method} ${url.split("?")[0]}`];
+      if (!handler) {
+        res.statusCode = 404;
+        res.end(
+          JSON.stringify({
+            kind: "Status",
+            apiVersion: "v1",
+            status: "Failure",
+            reason: "NotFound",
+            code: 404,
+          }),
+        );
+        return;
+      }
+      res.end(JSON.stringify(handler(body) ?? {}));
+    });
+  });
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server)),
+  );
+}
+
+describe("KubernetesClientHelper against a fake API server", () => {
+  const requests: RecordedRequest[] = [];
+  const routes: Record<string, (body: unknown) => unknown> = {};
+  const watches: Record<string, (res: http.ServerResponse) => void> = {};
+  let server: http.Server;
+  let client: KubernetesClientHelper;
+  const savedKubeconfig = process.env.KUBECONFIG;
+  const kubeconfigDir = fs.mkdtempSync(path.join(os.tmpdir(), "kubeconfig-"));
+
+  before(async () => {
+    server = await startFakeApiServer(routes, requests, watches);
+    const { port } = server.address() as AddressInfo;
+    const kubeconfigPath = path.join(kubeconfigDir, "config");
+    // Plain HTTP is refused unless insecure-skip-tls-verify is set
+    fs.writeFileSync(
+      kubeconfigPath,
+      `apiVersion: v1
+kind: Config
+clusters:
+  - name: fake
+    cluster:
+      server: http://127.0.0.1:${port}
+      insecure-skip-tls-verify: true
+users:
+  - name: fake
+    user:
+      token: t
+contexts:
+  - name: fake
+    context:
+      cluster: fake
+      user: fake
+current-context: fake
+`,
+    );
+    process.env.KUBECONFIG = kubeconfigPath;
+    client = new KubernetesClientHelper();
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(kubeconfigDir, { recursive: true, force: true });
+    if (savedKubeconfig === undefined) delete process.env.KUBECONFIG;
+    else process.env.KUBECONFIG = savedKubeconfig;
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    for (const key of Object.keys(routes)) delete routes[key];
+    for (const key of Object.keys(watches)) delete watches[key];
+  });
+
+  it("deploymentExists is false on 404 and true when found", async () => {
+    assert.strictEqual(await client.deploymentExists("ns", "rhdh"), false);
+
+    routes["GET /apis/apps/v1/namespaces/ns/deployments/rhdh"] = () => ({
+      metadata: { name: "rhdh" },
+    });
+    assert.strictEqual(await client.deploymentExists("ns", "rhdh"), true);
+  });
+
+  it("restartDeployments merge-patches the restartedAt annotation on each match", async () => {
+    routes["GET /apis/apps/v1/namespaces/ns/deployments"] = () => ({
+      items: [{ metadata: { name: "a" } }, { metadata: { name: "b" } }],
+    });
+    routes["PATCH /apis/apps/v1/namespaces/ns/deployments/a"] = () => ({});
+    routes["PATCH /apis/apps/v1/namespaces/ns/deployments/b"] = () => ({});
+
+    const restarted = await client.restartDeployments("ns", "app=rhdh");
+
+    assert.deepStrictEqual(restarted, ["a", "b"]);
+    const list = requests.find((r) => r.method === "GET");
+    assert.ok(list?.url.includes("labelSelector=app%3Drhdh"));
+    const patches = requests.filter((r) => r.method === "PATCH");
+    assert.strictEqual(patches.length, 2);
+    assert.strictEqual(patches[0].contentType, "application/merge-patch+json");
+    const annotations = (
+      patches[0].body as {
+        spec: {
+          template: { metadata: { annotations: Record<string, string> } };
+        };
+      }
+    ).spec.template.metadata.annotations;
+    assert.ok(annotations["kubectl.kubernetes.io/restartedAt"]);
+  });
+
+  it("scaleDeployments patches the scale subresource", async () => {
+    routes["GET /apis/apps/v1/namespaces/ns/deployments"] = () => ({
+      items: [{ metadata: { name: "rhdh" } }],
+    });
+    routes["PATCH /apis/apps/v1/namespaces/ns/deployments/rhdh/scale"] =
+      () => ({});
+
+    await client.scaleDeployments("ns", "app=rhdh", 0);
+
+    const patch = requests.find((r) => r.method === "PATCH");
+    assert.deepStrictEqual(patch?.body, { spec: { replicas: 0 } });
+  });
+
+  it("getDeploymentImages lists init and app container images", async () => {
+    routes["GET /apis/apps/v1/namespaces/ns/deployments"] = () => ({
+      items: [
+        {
+          metadata: { name: "rhdh" },
+          spec: {
+            selector: {},
+            template: {
+              spec: {
+                initContainers: [{ name: "install", image: "quay.io/b:1" }],
+                containers: [{ name: "backstage", image: "quay.io/a:1" }],
+              },
+            },
+          },
+        },
+      ],
+    });
+
+    assert.deepStrictEqual(await client.getDeploymentImages("ns", "app=rhdh"), [
+      "quay.io/a:1",
+      "quay.io/b:1",
+    ]);
+  });
+
+  it("getConfigMapMounts lists mounts of a ConfigMap in running pods", async () => {
+    const pod = (name: string, phase: string, subPath?: string) => ({
+      metadata: { name },
+      spec: {
+        volumes: [
+          { name: "app-config", configMap: { name: "app-config-rhdh" } },
+          { name: "other", configMap: { name: "other" } },
+        ],
+        containers: [
+          {
+            name: "backstage",
+            volumeMounts: [
+              { name: "app-config", mountPath: "/opt/app-root/src", subPath },
+              { name: "other", mountPath: "/other" },
+            ],
+          },
+        ],
+      },
+      status: { phase },
+    });
+    routes["GET /api/v1/namespaces/ns/pods"] = () => ({
+      items: [
+        pod("a", "Running"),
+        pod("b", "Running", "app-config-rhdh.yaml"),
+        pod("c", "Terminating"),
+      ],
+    });
+
+    assert.deepStrictEqual(
+      await client.getConfigMapMounts("ns", "app=rhdh", "app-config-rhdh"),
+      [
+        { pod: "a", container: "backstage", mountPath: "/opt/app-root/src" },
+        {
+          pod: "b",
+          container: "backstage",
+          mountPath: "/opt/app-root/src",
+          subPath: "app-config-rhdh.yaml",
+        },
+      ],
+    );
+  });
+
+  it("waitForPodsDeleted returns false when pods remain past the timeout", async () => {
+    routes["GET /api/v1/namespaces/ns/pods"] = () => ({
+      items: [{ metadata: { name: "p" } }],
+    });
+    assert.strictEqual(
+      await client.waitForPodsDeleted("ns", "app=rhdh", 0.05, 10),
+      false,
+    );
+
+    routes["GET /api/v1/namespaces/ns/pods"] = () => ({ items: [] });
+    assert.strictEqual(await client.waitForPodsDeleted("ns", "app=rhdh"), true);
+  });
+
+  it("applyCustomResource creates when missing and replaces with resourceVersion when present", async () => {
+    const cr = {
+      apiVersion: "rhdh.redhat.com/v1alpha5",
+      kind: "Backstage",
+      metadata: { name: "developer-hub" },
+      spec: {},
+    };
+    routes["POST /apis/rhdh.redhat.com/v1alpha5/namespaces/ns/backstages"] = (
+      body,
+    ) => body;
+
+    await client.applyCustomResource(cr, "ns", "backstages");
+    const create = requests.find((r) => r.method === "POST");
+    assert.strictEqual(
+      (create?.body as { metadata: { namespace: string } }).metadata.namespace,
+      "ns",
+    );
+
+    requests.length = 0;
+    routes[
+      "GET /apis/rhdh.redhat.com/v1alpha5/namespaces/ns/backstages/developer-hub"
+    ] = () => ({
+      ...cr,
+      metadata: { name: "developer-hub", resourceVersion: "7" },
+    });
+    routes[
+      "PUT /apis/rhdh.redhat.com/v1alpha5/namespaces/ns/backstages/developer-hub"
+    ] = (body) => body;
+
+    await client.applyCustomResource(cr, "ns", "backstages");
+    const replace = requests.find((r) => r.method === "PUT");
+    assert.strictEqual(
+      (replace?.body as { metadata: { resourceVersion: string } }).metadata
+        .resourceVersion,
+      "7",
+    );
+  });
+
+  describe("applyManifests", () => {
+    const manifest = `
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: seed
+data:
+  owner: $SEED_OWNER
+---
+apiVersion: rbac.authorization.k8s.io/v1
+kind: ClusterRole
+metadata:
+  name: seed-reader
+rules: []
+`;
+
+    beforeEach(() => {
+      routes["GET /api/v1"] = () => ({
+        resources: [
+          { kind: "ConfigMap", name: "configmaps", namespaced: true },
+        ],
+      });
+      routes["GET /apis/rbac.authorization.k8s.io/v1"] = () => ({
+        resources: [
+          { kind: "ClusterRole", name: "clusterroles", namespaced: false },
+        ],
+      });
+      routes["POST /api/v1/namespaces/ns/configmaps"] = (body) => body;
+      routes["POST /apis/rbac.authorization.k8s.io/v1/clusterroles"] = (body) =>
+        body;
+    });
+
+    it("creates each document, defaulting the namespace only for namespaced kinds", async () => {
+      process.env.SEED_OWNER = "guest";
+      try {
+        const applied = await client.applyManifests(manifest, "ns", {
+          envsubst: true,
+        });
+
+        assert.deepStrictEqual(
+          applied.map((o) => [o.kind, o.metadata?.namespace]),
+          [
+            ["ConfigMap", "ns"],
+            ["ClusterRole", undefined],
+          ],
+        );
+        const configMap = requests.find(
+          (r) => r.method === "POST" && r.url.includes("configmaps"),
+        );
+        assert.deepStrictEqual((configMap?.body as { data: unknown }).data, {
+          owner: "guest",
+        });
+      } finally {
+        delete process.env.SEED_OWNER;
+      }
+    });
+
+    it("names a missing manifest file instead of parsing it as YAML", async () => {
+      await assert.rejects(
+        client.applyManifests("./manifests/sede.yaml", "ns"),
+        /^Error: Manifest file not found: \.\/manifests\/sede\.yaml$/,
+      );
+      assert.strictEqual(requests.length, 0);
+    });
+
+    it("reads manifests from a file and replaces existing objects with their resourceVersion", async () => {
+      const file = path.join(kubeconfigDir, "seed.yaml");
+      fs.writeFileSync(file, manifest);
+      routes["GET /api/v1/namespaces/ns/configmaps/seed"] = () => ({
+        apiVersion: "v1",
+        kind: "ConfigMap",
+        metadata: { name: "seed", namespace: "ns", resourceVersion: "3" },
+      });
+      routes["PUT /api/v1/namespaces/ns/configmaps/seed"] = (body) => body;
+
+      await client.applyManifests(file, "ns");
+
+      const replace = requests.find((r) => r.method === "PUT");
+      assert.strictEqual(
+        (replace?.body as { metadata: { resourceVersion: string } }).metadata
+          .resourceVersion,
+        "3",
+      );
+      assert.ok(
+        requests.some(
+          (r) => r.method === "POST" && r.url.includes("clusterroles"),
+        ),
+      );
+    });
+
+    it("uses server-side apply when requested", async () => {
+      routes["PATCH /api/v1/namespaces/ns/configmaps/seed"] = (body) => body;
+      routes[
+        "PATCH /apis/rbac.authorization.k8s.io/v1/clusterroles/seed-reader"
+      ] = (body) => body;
+
+      await client.applyManifests(manifest, "ns", { serverSide: true });
+
+      const patches = requests.filter((r) => r.method === "PATCH");
+      assert.strictEqual(patches.length, 2);
+      assert.strictEqual(
+        patches[0].contentType,
+        "application/apply-patch+yaml",
+      );
+      assert.ok(patches[0].url.includes("fieldManager=rhdh-e2e-test-utils"));
+      assert.ok(patches[0].url.includes("force=true"));
+    });
+
+    it("names the document when its kind is unknown to the cluster", async () => {
+      await assert.rejects(
+        client.applyManifests(
+          "apiVersion: tekton.dev/v1\nkind: PipelineRun\nmetadata:\n  name: run\n",
+          "ns",
+        ),
+        /Unknown resource tekton\.dev\/v1 PipelineRun for PipelineRun run/,
+      );
+    });
+
+    it("deleteAppliedManifests removes applied objects newest first", async () => {
+      await client.applyManifests(manifest, "ns");
+      routes[
+        "DELETE /apis/rbac.authorization.k8s.io/v1/clusterroles/seed-reader"
+      ] = () => ({});
+      requests.length = 0;
+
+      // The ConfigMap has no DELETE route, so it is already gone (404)
+      await client.deleteAppliedManifests();
+
+      assert.deepStrictEqual(
+        requests.filter((r) => r.method === "DELETE").map((r) => r.url),
+        [
+          "/apis/rbac.authorization.k8s.io/v1/clusterroles/seed-reader",
+          "/api/v1/namespaces/ns/configmaps/seed",
+        ],
+      );
+    });
+  });
+
+  describe("waitForPodsWithFailureDetection", () => {
+    const pod = (name: string, status: Record<string, unknown>) => ({
+      metadata: { name },
+      status,
+    });
+    const pending = pod("rhdh-0", { phase: "Pending" });
+    const ready = pod("rhdh-0", {
+      phase: "Running",
+      conditions: [{ type: "Ready", status: "True" }],
+    });
+    const crashing = pod("rhdh-0", {
+      phase: "Running",
+      containerStatuses: [
+        {
+          name: "backstage",
+          state: { waiting: { reason: "CrashLoopBackOff" } },
+        },
+      ],
+    });
+    const podsPath = "/api/v1/namespaces/ns/pods";
+
+    /** Stream the given pods as watch events, then keep the stream open. */
+    const streamEvents =
+      (...events: Array<[string, unknown]>) =>
+      (res: http.ServerResponse) => {
+        for (const [type, object] of events) {
+          res.write(JSON.stringify({ type, object }) + "\n");
+        }
+      };
+
+    it("resolves from a watch event and records the timeline", async () => {
+      routes[`GET ${podsPath}`] = () => ({
+        metadata: { resourceVersion: "1" },
+        items: [pending],
+      });
+      watches[podsPath] = streamEvents(["MODIFIED", ready]);
+
+      // A 60s poll interval would time the test out if the watch were ignored
+      const timeline = await client.waitForPodsWithFailureDetection(
+        "ns",
+        "app=rhdh",
+        5,
+        60_000,
+      );
+
+      assert.deepStrictEqual(
+        timeline.map((e) => [e.object, e.state]),
+        [
+          ["rhdh-0", "Pending"],
+          ["rhdh-0", "Ready"],
+        ],
+      );
+      const watch = requests.find((r) => r.url.includes("watch=true"));
+      assert.ok(watch?.url.includes("resourceVersion=1"));
+      assert.ok(watch?.url.includes("labelSelector=app%3Drhdh"));
+    });
+
+    it("fails fast on CrashLoopBackOff with the timeline in the error", async () => {
+      routes[`GET ${podsPath}`] = () => ({
+        metadata: { resourceVersion: "1" },
+        items: [pending],
+      });
+      watches[podsPath] = streamEvents(["MODIFIED", crashing]);
+
+      await assert.rejects(
+        client.waitForPodsWithFailureDetection("ns", "app=rhdh", 5, 60_000),
+        (error: unknown) => {
+          assert.ok(error instanceof ReadinessError);
+          assert.match(error.message, /Pod rhdh-0 failed: CrashLoopBackOff/);
+          assert.deepStrictEqual(error.timeline.at(-1), {
+            ...error.timeline.at(-1),
+            object: "rhdh-0",
+            state: "CrashLoopBackOff",
+          });
+          return true;
+        },
+      );
+    });
+
+    it("falls back to polling when the watch drops", async () => {
+      let lists = 0;
+      routes[`GET ${podsPath}`] = () => ({
+        metadata: { resourceVersion: "1" },
+        items: [++lists < 2 ? pending : ready],
+      });
+      watches[podsPath] = (res) => res.end();
+
+      const timeline = await client.waitForPodsWithFailureDetection(
+        "ns",
+        "app=rhdh",
+        5,
+        10,
+      );
+
+      assert.deepStrictEqual(
+        timeline.map((e) => e.object),
+        ["rhdh-0", "watch", "rhdh-0"],
+      );
+      assert.strictEqual(timeline.at(-1)?.state, "Ready");
+    });
+  });
+
+  it("waitForStatefulSetReady follows the StatefulSet by name", async () => {
+    const stsPath = "/apis/apps/v1/namespaces/ns/statefulsets";
+    routes[`GET ${stsPath}`] = () => ({
+      metadata: { resourceVersion: "4" },
+      items: [{ metadata: { name: "keycloak" }, spec: { replicas: 1 } }],
+    });
+    watches[stsPath] = (res) =>
+      res.write(
+        JSON.stringify({
+          type: "MODIFIED",
+          object: {
+            metadata: { name: "keycloak" },
+            spec: { replicas: 1 },
+            status: { readyReplicas: 1 },
+          },
+        }) + "\n",
+      );
+
+    assert.strictEqual(
+      await client.waitForStatefulSetReady("ns", "keycloak", 5, 60_000),
+      true,
+    );
+    const list = requests.find((r) => r.url.startsWith(stsPath));
+    assert.ok(list?.url.includes("fieldSelector=metadata.name%3Dkeycloak"));
+  });
+});
@@ -3,9 +3,91 @@ import * as k8s from "@kubernetes/client-node";
 import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "js-yaml";
+import { envsubst } from "./common.js";
 
 $.verbose = true;
 
+/** Pod template annotation `kubectl rollout restart` bumps to roll a Deployment. */
+const RESTARTED_AT_ANNOTATION = "kubectl.kubernetes.io/restartedAt";
+
+/** Field manager recorded on objects created or applied by this helper. */
+const FIELD_MANAGER = "rhdh-e2e-test-utils";
+
+export type ApplyManifestsOptions = {
+  /** Substitute environment variables in the manifest before parsing */
+  envsubst?: boolean;
+  /** Use server-side apply (forcing conflicts) instead of create-or-replace */
+  serverSide?: boolean;
+};
+
+/** A ConfigMap mounted into a container of a running pod. */
+export type ConfigMapMount = {
+  pod: string;
+  container: string;
+  /** Directory holding one file per key, or the file itself with `subPath` */
+  mountPath: string;
+  /** Set when a single key is mounted; such files never receive updates */
+  subPath?: string;
+};
+
+/** One observed state transition while waiting for readiness. */
+export type ReadinessTimelineEntry = {
+  /** Milliseconds since the wait started */
+  elapsedMs: number;
+  /** Object name, or "watch" for events of the wait itself */
+  object: string;
+  /** e.g. "Pending", "Init:0/1", "Running (not ready)", "Ready", "CrashLoopBackOff" */
+  state: string;
+};
+
+/** Thrown when a readiness wait fails or times out; carries what was observed. */
+class ReadinessError extends Error {
+  constructor(
+    message: string,
+    readonly timeline: ReadinessTimelineEntry[],
+    options?: ErrorOptions,
+  ) {
+    super(`${message}\n${formatReadinessTimeline(timeline)}`, options);
+    this.name = "ReadinessError";
+  }
+}
+
+/** Render a timeline as one line per transition, e.g. `+12.3s rhdh-abc: Ready`. */
+function formatReadinessTimeline(timeline: ReadinessTimelineEntry[]): string {
+  return timeline
+    .map(
+      (e) => `  +${(e.elapsedMs / 1000).toFixed(1)}s ${e.object}: ${e.state}`,
+    )
+    .join("\n");
+}
+
+type WaitSpec<T extends k8s.KubernetesObject, F> = {
+  /** Collection path to watch, e.g. /api/v1/namespaces/ns/pods */
+  watchPath: string;
+  /** Selectors shared by the watch and list calls */
+  queryParams: Record<string, string>;
+  list: () => Promise<{ items: T[]; resourceVersion?: string }>;
+  describe: (obj: T) => string;
+  check: (objects: T[]) => { ready: boolean; failure?: F };
+  timeoutMs: number;
+  pollIntervalMs: number;
+};
+
+type WaitResult<F> = { timeline: ReadinessTimelineEntry[] } & (
+  | { status: "ready" | "timeout" }
+  | { status: "failed"; failure: F }
+);
+
+/** Exposes the discovery lookup `KubernetesObjectApi` keeps protected. */
+class DiscoveryObjectApi extends k8s.KubernetesObjectApi {
+  findResource(
+    apiVersion: string,
+    kind: string,
+  ): Promise<k8s.V1APIResource | undefined> {
+    return this.resource(apiVersion, kind);
+  }
+}
+
 /**
  * Kubernetes client wrapper with proper abstraction
  */
@@ -14,6 +96,9 @@ class KubernetesClientHelper {
   private _k8sApi: k8s.CoreV1Api;
   private _appsApi: k8s.AppsV1Api;
   private _customObjectsApi: k8s.CustomObjectsApi;
+  private _networkingApi: k8s.NetworkingV1Api;
+  private _objectApi: DiscoveryObjectApi;
+  private _appliedObjects: k8s.KubernetesObject[] = [];
 
   constructor() {
     this._kc = new k8s.KubeConfig();
@@ -23,6 +108,8 @@ class KubernetesClientHelper {
       this._k8sApi = this._kc.makeApiClient(k8s.CoreV1Api);
       this._appsApi = this._kc.makeApiClient(k8s.AppsV1Api);
       this._customObjectsApi = this._kc.makeApiClient(k8s.CustomObjectsApi);
+      this._networkingApi = this._kc.makeApiClient(k8s.NetworkingV1Api);
+      this._objectApi = this._kc.makeApiClient(DiscoveryObjectApi);
     } catch (error) {
       if (
         error instanceof Error &&
@@ -141,49 +228,175 @@ class KubernetesClientHelper {
   }
 
   /**
-   * Apply a Kubernetes manifest from a YAML file
-  //  */
-  // async applyManifest(filePath: string, namespace: string): Promise<void> {
-  //   try {
-  //     const fileContent = fs.readFileSync(filePath, "utf-8");
-  //     const docs = yaml.loadAll(fileContent) as any[];
+   * Apply every document of a multi-document manifest, like `kubectl apply -f`.
+   *
+   * Each kind is resolved through the discovery API, so any built-in or CRD
+   * resource works. Namespaced resources without a namespace land in
+   * `namespace`; cluster-scoped ones are applied as-is. Applied objects are
+   * remembered for {@link deleteAppliedManifests}.
+   *
+   * @param yamlOrPath - Path to a YAML file, or the YAML content itself. A
+   *   single line without `:` is always a path, and must exist
+   * @param namespace - Default namespace for namespaced resources
+   * @param options.envsubst - Substitute `$VAR` / `${VAR}` before parsing
+   * @param options.serverSide - Use server-side apply instead of create-or-replace
+   * @returns The objects as stored by the API server, in manifest order
+   */
+  async applyManifests(
+    yamlOrPath: string,
+    namespace: string,
+    options: ApplyManifestsOptions = {},
+  ): Promise<k8s.KubernetesObject[]> {
+    // Inline YAML has a line break or a `key: value`; anything else is a path
+    const isPath =
+      !yamlOrPath.includes("\n") &&
+      (fs.existsSync(yamlOrPath) || !yamlOrPath.includes(":"));
+    if (isPath && !fs.existsSync(yamlOrPath)) {
+      throw new Error(`Manifest file not found: ${yamlOrPath}`);
+    }
+    const source = isPath ? yamlOrPath : "inline manifest";
+    let content = isPath ? fs.readFileSync(yamlOrPath, "utf-8") : yamlOrPath;
+    if (options.envsubst) content = envsubst(content);
 
-  //     for (const doc of docs) {
-  //       if (!doc || !doc.kind) continue;
+    const docs = (yaml.loadAll(content) as k8s.KubernetesObject[]).filter(
+      (doc) => doc?.kind,
+    );
+    if (docs.length === 0) {
+      throw new Error(`No Kubernetes objects found in ${source}`);
+    }
 
-  //       doc.metadata = doc.metadata || {};
-  //       doc.metadata.namespace = namespace;
+    const applied: k8s.KubernetesObject[] = [];
+    for (const doc of docs) {
+      const result = await this._applyObject(doc, namespace, options);
+      this._trackApplied(result);
+      applied.push(result);
+    }
+    console.log(
+      `✓ Applied ${applied.length} object(s) from ${source} to namespace ${namespace}`,
+    );
+    return applied;
+  }
 
-  //       await this.applyResource(doc, namespace);
-  //     }
-  //   } catch (error: any) {
-  //     console.error(`✗ Failed to apply manifest ${filePath}:`, error.message);
-  //     throw error;
-  //   }
-  // }
   /**
-   * Apply a Kubernetes resource dynamically
+   * Delete everything applied through {@link applyManifests} by this helper,
+   * newest first. Objects that are already gone are ignored.
    */
-  // private async applyResource(resource: any, namespace: string): Promise<void> {
-  //   const kind = resource.kind;
-  //   const name = resource.metadata.name;
+  async deleteAppliedManifests(): Promise<void> {
+    const objects = this._appliedObjects.splice(0).reverse();
+    for (const obj of objects) {
+      const label = `${obj.kind} ${obj.metadata?.name}`;
+      try {
+        await this._objectApi.delete(obj);
+        console.log(`✓ Deleted ${label}`);
+      } catch (error) {
+        if (this._isNotFoundError(error)) continue;
+        throw new Error(
+          `Failed to delete ${label}: ${error instanceof Error ? error.message : error}`,
+          { cause: error },
+        );
+      }
+    }
+  }
+
+  private async _applyObject(
+    doc: k8s.KubernetesObject,
+    namespace: string,
+    options: ApplyManifestsOptions,
+  ): Promise<k8s.KubernetesObject> {
+    const apiVersion = doc.apiVersion ?? "v1";
+    const name = doc.metadata?.name;
+    const label = `${doc.kind} ${name ?? "(unnamed)"}`;
+    if (!name) {
+      throw new Error(`${label} has no metadata.name`);
+    }
+
+    const resource = await this._objectApi
+      .findResource(apiVersion, doc.kind!)
+      .catch((error) => {
+        // The whole group/version is unknown when its CRD is not installed
+        if (this._isNotFoundError(error)) return undefined;
+        throw error;
+      });
+    if (!resource) {
+      throw new Error(
+        `Unknown resource ${apiVersion} ${doc.kind} for ${label}; is its CRD installed?`,
+      );
+    }
+    const spec: k8s.KubernetesObject = {
+      ...doc,
+      apiVersion,
+      metadata: {
+        ...doc.metadata,
+        ...(resource.namespaced
+          ? { namespace: doc.metadata?.namespace ?? namespace }
+          : {}),
+      },
+    };
+
+    try {
+      if (options.serverSide) {
+        return await this._objectApi.patch(
+          spec,
+          undefined,
+          undefined,
+          FIELD_MANAGER,
+          true,
+          k8s.PatchStrategy.ServerSideApply,
+        );
+      }
+      return await this._createOrReplaceObject(spec);
+    } catch (error) {
+      throw new Error(
+        `Failed to apply ${label}: ${error instanceof Error ? error.message : error}`,
+        { cause: error },
+      );
+    }
+  }
+
+  private async _createOrReplaceObject(
+    spec: k8s.KubernetesObject,
+  ): Promise<k8s.KubernetesObject> {
+    let existing: k8s.KubernetesObject;
+    try {
+      existing = await this._objectApi.read({
+        apiVersion: spec.apiVersion!,
+        kind: spec.kind!,
+        metadata: {
+          name: spec.metadata!.name!,
+          namespace: spec.metadata!.namespace,
+        },
+      });
+    } catch (error) {
+      if (!this._isNotFoundError(error)) throw error;
+      return this._objectApi.create(spec, undefined, undefined, FIELD_MANAGER);
+    }
+    return this._objectApi.replace(
+      {
+        ...spec,
+        metadata: {
+          ...spec.metadata,
+          resourceVersion: existing.metadata?.resourceVersion,
+        },
+      },
+      undefined,
+      undefined,
+      FIELD_MANAGER,
+    );
+  }
 
-  //   try {
-  //     switch (kind) {
-  //       case "Secret":
-  //         await this.applySecret(resource, namespace);
-  //         break;
-  //       case "ConfigMap":
-  //         await this.applyConfigMap(resource, namespace);
-  //         break;
-  //       default:
-  //         console.warn(`⚠ Skipping unsupported resource type: ${kind}`);
-  //     }
-  //   } catch (error: any) {
-  //     console.error(`✗ Failed to apply ${kind} ${name}:`, error.message);
-  //     throw error;
-  //   }
-  // }
+  private _trackApplied(obj: k8s.KubernetesObject): void {
+    const key = (o: k8s.KubernetesObject) =>
+      `${o.apiVersion}/${o.kind}/${o.metadata?.namespace ?? ""}/${o.metadata?.name}`;
+    if (this._appliedObjects.some((o) => key(o) === key(obj))) return;
+    this._appliedObjects.push({
+      apiVersion: obj.apiVersion,
+      kind: obj.kind,
+      metadata: {
+        name: obj.metadata?.name,
+        namespace: obj.metadata?.namespace,
+      },
+    });
+  }
 
   /**
    * Create or update a Secret
@@ -267,6 +480,66 @@ class KubernetesClientHelper {
     }
   }
 
+  /**
+   * Read a ConfigMap's data. Returns null if the ConfigMap doesn't exist.
+   */
+  async getConfigMapData(
+    name: string,
+    namespace: string,
+  ): Promise<Record<string, string> | null> {
+    try {
+      const configMap = await this._k8sApi.readNamespacedConfigMap({
+        name,
+        namespace,
+      });
+      return configMap.data ?? {};
+    } catch (error) {
+      if (this._isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Read a Secret's data, base64-decoded. Returns null if the Secret doesn't exist.
+   */
+  async getSecretData(
+    name: string,
+    namespace: string,
+  ): Promise<Record<string, string> | null> {
+    try {
+      const secret = await this._k8sApi.readNamespacedSecret({
+        name,
+        namespace,
+      });
+      return Object.fromEntries(
+        Object.entries(secret.data ?? {}).map(([key, value]) => [
+          key,
+          Buffer.from(value, "base64").toString("utf8"),
+        ]),
+      );
+    } catch (error) {
+      if (this._isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a ConfigMap, ignoring it if it doesn't exist
+   */
+  async deleteConfigMap(name: string, namespace: string): Promise<void> {
+    try {
+      await this._k8sApi.deleteNamespacedConfigMap({ name, namespace });
+      console.log(`✓ Deleted ConfigMap ${name} in namespace ${namespace}`);
+    } catch (error) {
+      if (this._isNotFoundError(error)) return;
+      console.error(
+        `✗ Failed to delete ConfigMap ${name} in namespace ${namespace}:`,
+        error instanceof Error ? error.message : error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Create or update a Secret from a plain object
    */
@@ -433,28 +706,409 @@ class KubernetesClientHelper {
   }
 
   /**
-   * Wait for a StatefulSet to be ready (all replicas available)
+   * Check if at least one pod matches the label selector and all matching pods are ready
+   */
+  async arePodsReady(
+    namespace: string,
+    labelSelector: string,
+  ): Promise<boolean> {
+    try {
+      const pods = (
+        await this._k8sApi.listNamespacedPod({ namespace, labelSelector })
+      ).items;
+      return (
+        pods.length > 0 &&
+        pods.every(
+          (pod) =>
+            pod.status?.conditions?.find((c) => c.type === "Ready")?.status ===
+            "True",
+        )
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read a container's log from the newest pod matching the label selector.
+   * Returns null when no pod matches or the container has not produced a log yet.
+   */
+  async getContainerLog(
+    namespace: string,
+    labelSelector: string,
+    container: string,
+  ): Promise<string | null> {
+    const pods = (
+      await this._k8sApi.listNamespacedPod({ namespace, labelSelector })
+    ).items.sort(
+      (a, b) =>
+        (b.metadata?.creationTimestamp?.getTime() ?? 0) -
+        (a.metadata?.creationTimestamp?.getTime() ?? 0),
+    );
+    const name = pods[0]?.metadata?.name;
+    if (!name) return null;
+    try {
+      return await this._k8sApi.readNamespacedPodLog({
+        name,
+        namespace,
+        container,
+      });
+    } catch (error) {
+      // 400 while the container is still waiting to start
+      if (this._isNotFoundError(error)) return null;
+      const err = error as { code?: number };
+      if (err.code === 400) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Where running pods matching the label selector mount a ConfigMap, one
+   * entry per container mount.
+   */
+  async getConfigMapMounts(
+    namespace: string,
+    labelSelector: string,
+    configMap: string,
+  ): Promise<ConfigMapMount[]> {
+    const pods = (
+      await this._k8sApi.listNamespacedPod({ namespace, labelSelector })
+    ).items.filter((pod) => pod.status?.phase === "Running");
+    return pods.flatMap((pod) => {
+      const volumes = new Set(
+        (pod.spec?.volumes ?? [])
+          .filter(
+            (v) =>
+              v.configMap?.name === configMap ||
+              v.projected?.sources?.some(
+                (s) => s.configMap?.name === configMap,
+              ),
+          )
+          .map((v) => v.name),
+      );
+      return (pod.spec?.containers ?? []).flatMap((container) =>
+        (container.volumeMounts ?? [])
+          .filter((mount) => volumes.has(mount.name))
+          .map((mount) => ({
+            pod: pod.metadata?.name ?? "",
+            container: container.name,
+            mountPath: mount.mountPath,
+            ...(mount.subPath ? { subPath: mount.subPath } : {}),
+          })),
+      );
+    });
+  }
+
+  /**
+   * Read a file inside a container with `kubectl exec … cat`. Returns null
+   * when it cannot be read (missing file, pod gone, no `cat` in the image).
+   */
+  async readPodFile(
+    namespace: string,
+    pod: string,
+    container: string,
+    filePath: string,
+  ): Promise<string | null> {
+    const result = await $({
+      stdio: ["pipe", "pipe", "pipe"],
+      timeout: "20s",
+      nothrow: true,
+      verbose: false,
+    })`kubectl exec -n ${namespace} ${pod} -c ${container} -- cat ${filePath}`;
+    return result.exitCode === 0 ? result.stdout : null;
+  }
+
+  /**
+   * Wait for a StatefulSet to have all replicas ready, reacting to watch events
+   * (polling if the watch drops).
    */
   async waitForStatefulSetReady(
     namespace: string,
     name: string,
     timeoutSeconds: number = 300,
     pollIntervalMs: number = 5000,
+  ): Promise<boolean> {
+    const isReady = (sts: k8s.V1StatefulSet) =>
+      (sts.status?.readyReplicas ?? 0) >= (sts.spec?.replicas ?? 1);
+    const result = await this._waitForObjects<k8s.V1StatefulSet, never>({
+      watchPath: `/apis/apps/v1/namespaces/${namespace}/statefulsets`,
+      queryParams: { fieldSelector: `metadata.name=${name}` },
+      list: async () => {
+        const list = await this._appsApi.listNamespacedStatefulSet({
+          namespace,
+          fieldSelector: `metadata.name=${name}`,
+        });
+        return {
+          items: list.items,
+          resourceVersion: list.metadata?.resourceVersion,
+        };
+      },
+      describe: (sts) =>
+        `${sts.status?.readyReplicas ?? 0}/${sts.spec?.replicas ?? 1} ready`,
+      check: (items) => ({ ready: items.length > 0 && items.every(isReady) }),
+      timeoutMs: timeoutSeconds * 1000,
+      pollIntervalMs,
+    });
+
+    if (result.status !== "ready") {
+      throw new ReadinessError(
+        `StatefulSet ${name} in namespace ${namespace} not ready after ${timeoutSeconds}s`,
+        result.timeline,
+      );
+    }
+    console.log(`✓ StatefulSet ${name} is ready`);
+    return true;
+  }
+
+  /**
+   * Check if a Deployment exists
+   */
+  async deploymentExists(namespace: string, name: string): Promise<boolean> {
+    try {
+      await this._appsApi.readNamespacedDeployment({ name, namespace });
+      return true;
+    } catch (error) {
+      if (this._isNotFoundError(error)) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Trigger a rolling restart of a Deployment by bumping the pod template annotation.
+   * Equivalent to: kubectl rollout restart deployment <name>
+   */
+  async restartDeployment(namespace: string, name: string): Promise<void> {
+    try {
+      await this._appsApi.patchNamespacedDeployment(
+        {
+          name,
+          namespace,
+          body: {
+            spec: {
+              template: {
+                metadata: {
+                  annotations: {
+                    [RESTARTED_AT_ANNOTATION]: new Date().toISOString(),
+                  },
+                },
+              },
+            },
+          },
+        },
+        k8s.setHeaderOptions("Content-Type", k8s.PatchStrategy.MergePatch),
+      );
+      console.log(`✓ Restarted Deployment ${name} in namespace ${namespace}`);
+    } catch (error) {
+      throw new Error(
+        `Failed to restart deployment ${name} in namespace ${namespace}: ${error instanceof Error ? error.message : error}`,
+        { cause: error },
+      );
+    }
+  }
+
+  /**
+   * Set the replica count of a Deployment through its scale subresource.
+   * Equivalent to: kubectl scale deployment <name> --replicas=<n>
+   */
+  async scaleDeployment(
+    namespace: string,
+    name: string,
+    replicas: number,
+  ): Promise<void> {
+    try {
+      await this._appsApi.patchNamespacedDeploymentScale(
+        { name, namespace, body: { spec: { replicas } } },
+        k8s.setHeaderOptions("Content-Type", k8s.PatchStrategy.MergePatch),
+      );
+      console.log(
+        `✓ Scaled Deployment ${name} in namespace ${namespace} to ${replicas}`,
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to scale deployment ${name} in namespace ${namespace}: ${error instanceof Error ? error.message : error}`,
+        { cause: error },
+      );
+    }
+  }
+
+  /**
+   * Restart every Deployment matching a label selector.
+   * Equivalent to: kubectl rollout restart deployment -l <selector>
+   *
+   * @returns Names of the restarted Deployments
+   */
+  async restartDeployments(
+    namespace: string,
+    labelSelector: string,
+  ): Promise<string[]> {
+    const names = await this._listDeploymentNames(namespace, labelSelector);
+    for (const name of names) {
+      await this.restartDeployment(namespace, name);
+    }
+    return names;
+  }
+
+  /**
+   * Scale every Deployment matching a label selector.
+   * Equivalent to: kubectl scale deployment -l <selector> --replicas=<n>
+   *
+   * @returns Names of the scaled Deployments
+   */
+  async scaleDeployments(
+    namespace: string,
+    labelSelector: string,
+    replicas: number,
+  ): Promise<string[]> {
+    const names = await this._listDeploymentNames(namespace, labelSelector);
+    for (const name of names) {
+      await this.scaleDeployment(namespace, name, replicas);
+    }
+    return names;
+  }
+
+  /**
+   * Container images of every Deployment matching a label selector, sorted.
+   * Equivalent to: kubectl get deployment -l <selector> -o jsonpath='{..image}'
+   */
+  async getDeploymentImages(
+    namespace: string,
+    labelSelector: string,
+  ): Promise<string[]> {
+    const deployments = await this._appsApi.listNamespacedDeployment({
+      namespace,
+      labelSelector,
+    });
+    return deployments.items
+      .flatMap((d) => [
+        ...(d.spec?.template.spec?.initContainers ?? []),
+        ...(d.spec?.template.spec?.containers ?? []),
+      ])
+      .map((container) => container.image)
+      .filter((image): image is string => !!image)
+      .sort();
+  }
+
+  private async _listDeploymentNames(
+    namespace: string,
+    labelSelector: string,
+  ): Promise<string[]> {
+    const deployments = await this._appsApi.listNamespacedDeployment({
+      namespace,
+      labelSelector,
+    });
+    return deployments.items
+      .map((d) => d.metadata?.name)
+      .filter((name): name is string => !!name);
+  }
+
+  /**
+   * Wait until no pods match a label selector.
+   * Equivalent to: kubectl wait --for=delete pod -l <selector>
+   *
+   * @returns true if all pods are gone, false if the timeout was reached
+   */
+  async waitForPodsDeleted(
+    namespace: string,
+    labelSelector: string,
+    timeoutSeconds: number = 120,
+    pollIntervalMs: number = 2000,
   ): Promise<boolean> {
     const startTime = Date.now();
     const timeoutMs = timeoutSeconds * 1000;
 
     while (Date.now() - startTime < timeoutMs) {
-      if (await this.isStatefulSetReady(namespace, name)) {
-        console.log(`✓ StatefulSet ${name} is ready`);
-        return true;
-      }
+      const pods = (
+        await this._k8sApi.listNamespacedPod({ namespace, labelSelector })
+      ).items;
+      if (pods.length === 0) return true;
       await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
     }
 
-    throw new Error(
-      `StatefulSet ${name} in namespace ${namespace} not ready after ${timeoutSeconds}s`,
+    console.log(
+      `[K8sHelper] Pods (${labelSelector}) in ${namespace} still present after ${timeoutSeconds}s`,
     );
+    return false;
+  }
+
+  /**
+   * Create or replace a namespaced custom resource (e.g., the Backstage CR).
+   * Equivalent to: kubectl apply -f <resource>
+   *
+   * @param resource - Full object with apiVersion, kind and metadata.name
+   * @param namespace - Namespace to apply into
+   * @param plural - Resource plural (e.g., "backstages")
+   */
+  async applyCustomResource(
+    resource: Record<string, unknown>,
+    namespace: string,
+    plural: string,
+  ): Promise<Record<string, unknown>> {
+    const apiVersion = resource.apiVersion as string | undefined;
+    const metadata = (resource.metadata ?? {}) as Record<string, unknown>;
+    const name = metadata.name as string | undefined;
+    if (!apiVersion?.includes("/") || !name) {
+      throw new Error(
+        `Custom resource must have a group apiVersion and metadata.name (got apiVersion=${apiVersion}, name=${name})`,
+      );
+    }
+    const [group, version] = apiVersion.split("/");
+    const body = { ...resource, metadata: { ...metadata, namespace } };
+
+    try {
+      const existing = (await this._customObjectsApi.getNamespacedCustomObject({
+        group,
+        version,
+        namespace,
+        plural,
+        name,
+      })) as { metadata?: { resourceVersion?: string } };
+      const response =
+        await this._customObjectsApi.replaceNamespacedCustomObject({
+          group,
+          version,
+          namespace,
+          plural,
+          name,
+          body: {
+            ...body,
+            metadata: {
+              ...body.metadata,
+              resourceVersion: existing.metadata?.resourceVersion,
+            },
+          },
+        });
+      console.log(
+        `✓ Updated ${resource.kind} ${name} in namespace ${namespace}`,
+      );
+      return response as Record<string, unknown>;
+    } catch (error) {
+      if (!this._isNotFoundError(error)) {
+        throw new Error(
+          `Failed to apply ${resource.kind} ${name} in namespace ${namespace}: ${error instanceof Error ? error.message : error}`,
+          { cause: error },
+        );
+      }
+    }
+
+    try {
+      const response =
+        await this._customObjectsApi.createNamespacedCustomObject({
+          group,
+          version,
+          namespace,
+          plural,
+          body,
+        });
+      console.log(
+        `✓ Created ${resource.kind} ${name} in namespace ${namespace}`,
+      );
+      return response as Record<string, unknown>;
+    } catch (error) {
+      throw new Error(
+        `Failed to create ${resource.kind} ${name} in namespace ${namespace}: ${error instanceof Error ? error.message : error}`,
+        { cause: error },
+      );
+    }
   }
 
   /**
@@ -510,6 +1164,102 @@ class KubernetesClientHelper {
     }
   }
 
+  /**
+   * Create or update an Ingress routing `host` to a service.
+   * Used in place of OpenShift Routes on plain Kubernetes clusters.
+   *
+   * @param namespace - Namespace of the service
+   * @param name - Ingress name
+   * @param host - Host the ingress answers on (e.g., app-ns.127.0.0.1.nip.io)
+   * @param service - Backend service name and port (number or port name)
+   */
+  async applyIngress(
+    namespace: string,
+    name: string,
+    host: string,
+    service: { name: string; port: number | string },
+  ): Promise<void> {
+    const ingress: k8s.V1Ingress = {
+      apiVersion: "networking.k8s.io/v1",
+      kind: "Ingress",
+      metadata: { name, namespace },
+      spec: {
+        ingressClassName: process.env.K8S_INGRESS_CLASS || undefined,
+        rules: [
+          {
+            host,
+            http: {
+              paths: [
+                {
+                  path: "/",
+                  pathType: "Prefix",
+                  backend: {
+                    service: {
+                      name: service.name,
+                      port:
+                        typeof service.port === "number"
+                          ? { number: service.port }
+                          : { name: service.port },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    };
+
+    try {
+      await this._networkingApi.replaceNamespacedIngress({
+        name,
+        namespace,
+        body: ingress,
+      });
+      console.log(`✓ Updated Ingress ${name} in namespace ${namespace}`);
+    } catch {
+      // If replace fails (likely 404), try to create
+      try {
+        await this._networkingApi.createNamespacedIngress({
+          namespace,
+          body: ingress,
+        });
+        console.log(`✓ Created Ingress ${name} in namespace ${namespace}`);
+      } catch (createError) {
+        console.error(
+          `✗ Failed to create/update Ingress ${name} in namespace ${namespace}:`,
+          createError instanceof Error ? createError.message : createError,
+        );
+        throw createError;
+      }
+    }
+  }
+
+  /**
+   * Get the URL of an Ingress by name (first rule's host)
+   *
+   * @returns The ingress URL (e.g., http://myapp-ns.127.0.0.1.nip.io)
+   */
+  async getIngressLocation(namespace: string, name: string): Promise<string> {
+    try {
+      const ingress = await this._networkingApi.readNamespacedIngress({
+        name,
+        namespace,
+      });
+      const host = ingress.spec?.rules?.[0]?.host;
+      if (!host) {
+        throw new Error(`Ingress ${name} does not have a host configured`);
+      }
+      const protocol = ingress.spec?.tls?.length ? "https" : "http";
+      return `${protocol}://${host}`;
+    } catch (error) {
+      throw new Error(
+        `Failed to get ingress ${name} in namespace ${namespace}: ${error instanceof Error ? error.message : error}`,
+        { cause: error },
+      );
+    }
+  }
+
   /**
    * Extract the URL from a route object
    */
@@ -549,104 +1299,229 @@ class KubernetesClientHelper {
    * Wait for pods matching a label selector to be ready, with early failure detection.
    * Fails fast when it detects unrecoverable states like CrashLoopBackOff.
    *
+   * Pod changes are followed through a watch, so readiness and failures are
+   * seen as soon as the kubelet reports them; if the watch drops, the wait
+   * continues by polling every `pollIntervalMs`.
+   *
    * @param namespace - Namespace to watch
    * @param labelSelector - Label selector (e.g., "app=myapp")
-   * @param timeoutSeconds - Maximum time to wait (default: 300)
-   * @param pollIntervalMs - How often to check pod status (default: 5000)
+   * @param timeoutSeconds - Maximum time to wait (default: 500)
+   * @param pollIntervalMs - Poll interval when the watch is unavailable (default: 5000)
+   * @returns Timeline of pod state transitions
+   * @throws ReadinessError with the timeline on failure or timeout
    */
   async waitForPodsWithFailureDetection(
     namespace: string,
     labelSelector: string,
     timeoutSeconds: number = 500,
     pollIntervalMs: number = 5000,
-  ): Promise<void> {
-    const startTime = Date.now();
-    const timeoutMs = timeoutSeconds * 1000;
-
+  ): Promise<ReadinessTimelineEntry[]> {
     console.log(
       `[K8sHelper] Waiting for pods (${labelSelector}) in ${namespace}...`,
     );
 
-    while (Date.now() - startTime < timeoutMs) {
-      let pods: k8s.V1Pod[];
-      try {
-        pods = (
-          await this._k8sApi.listNamespacedPod({ namespace, labelSelector })
-        ).items;
-      } catch (err) {
-        console.log(`[K8sHelper] API error, retrying: ${err}`);
-        await new Promise((r) => setTimeout(r, pollIntervalMs));
-        continue;
-      }
-
-      if (pods.length === 0) {
-        await new Promise((r) => setTimeout(r, pollIntervalMs));
-        continue;
-      }
-
-      for (const pod of pods) {
-        const podName = pod.metadata?.name || "unknown";
-        const failure = this._checkPodFailure(pod);
-
-        if (failure) {
-          console.log(`[K8sHelper] Pod ${podName} failed: ${failure.reason}`);
-          try {
-            if (failure.container) {
-              await $`oc logs ${podName} -n ${namespace} -c ${failure.container} --tail=100`;
-            } else {
-              await $`oc logs ${podName} -n ${namespace} --tail=100`;
-            }
-          } catch {
-            // Ignore log fetch errors
+    const result = await this._waitForObjects<
+      k8s.V1Pod,
+      { pod: string; reason: string; container?: string }
+    >({
+      watchPath: `/api/v1/namespaces/${namespace}/pods`,
+      queryParams: { labelSelector },
+      list: async () => {
+        const list = await this._k8sApi.listNamespacedPod({
+          namespace,
+          labelSelector,
+        });
+        return {
+          items: list.items,
+          resourceVersion: list.metadata?.resourceVersion,
+        };
+      },
+      describe: (pod) => this._describePodState(pod),
+      check: (pods) => {
+        for (const pod of pods) {
+          const failure = this._checkPodFailure(pod);
+          if (failure) {
+            return {
+              ready: false,
+              failure: { pod: pod.metadata?.name || "unknown", ...failure },
+            };
           }
-          throw new Error(`Pod ${podName} failed: ${failure.reason}`);
         }
-      }
-
-      // Check if all pods are ready
-      const allReady = pods.every((pod) => {
-        const ready = pod.status?.conditions?.find((c) => c.type === "Ready");
-        return ready?.status === "True";
-      });
+        return {
+          ready: pods.length > 0 && pods.every((pod) => this._isPodReady(pod)),
+        };
+      },
+      timeoutMs: timeoutSeconds * 1000,
+      pollIntervalMs,
+    });
 
-      if (allReady) {
-        console.log(
-          `[K8sHelper] All ${pods.length} pod(s) ready in ${namespace}`,
-        );
-        return;
-      }
+    if (result.status === "ready") {
+      console.log(`[K8sHelper] All pod(s) ready in ${namespace}`);
+      return result.timeline;
+    }
 
-      // Log pod status every 20 seconds
-      const elapsedSec = Math.floor((Date.now() - startTime) / 1000);
-      if (elapsedSec > 0 && elapsedSec % 20 === 0) {
-        try {
-          await $`oc get pods -n ${namespace} -l ${labelSelector}`;
-        } catch {
-          // Ignore errors
+    if (result.status === "failed") {
+      const { pod, reason, container } = result.failure;
+      console.log(`[K8sHelper] Pod ${pod} failed: ${reason}`);
+      try {
+        if (container) {
+          await $`kubectl logs ${pod} -n ${namespace} -c ${container} --tail=100`;
+        } else {
+          await $`kubectl logs ${pod} -n ${namespace} --tail=100`;
         }
+      } catch {
+        // Ignore log fetch errors
       }
-
-      await new Promise((r) => setTimeout(r, pollIntervalMs));
+      throw new ReadinessError(`Pod ${pod} failed: ${reason}`, result.timeline);
     }
 
     // Timeout reached - print diagnostics to stdio before throwing
     console.log(`\n[K8sHelper] ═══ Pod Diagnostics (timeout reached) ═══`);
     try {
       console.log(`\n[K8sHelper] ─── Pod Status ───`);
-      await $`oc get pods -n ${namespace} -l ${labelSelector} -o wide`;
+      await $`kubectl get pods -n ${namespace} -l ${labelSelector} -o wide`;
 
       console.log(`\n[K8sHelper] ─── Pod Logs ───`);
-      await $`oc logs -n ${namespace} -l ${labelSelector} --all-containers --tail=100 2>&1 || true`;
+      await $`kubectl logs -n ${namespace} -l ${labelSelector} --all-containers --tail=100 2>&1 || true`;
     } catch {
       // Ignore errors from diagnostic commands
     }
     console.log(`\n[K8sHelper] ═══ End Pod Diagnostics ═══\n`);
 
-    throw new Error(
+    throw new ReadinessError(
       `Timeout waiting for pods (${labelSelector}) after ${timeoutSeconds}s`,
+      result.timeline,
     );
   }
 
+  /**
+   * Wait engine shared by the readiness helpers: lists the objects once, then
+   * follows a watch from that resourceVersion, re-evaluating `check` on every
+   * event. If the watch cannot be opened or drops, it falls back to polling
+   * `list`. Every change of `describe(obj)` is recorded in the timeline.
+   */
+  private async _waitForObjects<T extends k8s.KubernetesObject, F>(
+    spec: WaitSpec<T, F>,
+  ): Promise<WaitResult<F>> {
+    const startTime = Date.now();
+    const deadline = startTime + spec.timeoutMs;
+    const timeline: ReadinessTimelineEntry[] = [];
+    const objects = new Map<string, T>();
+    const states = new Map<string, string>();
+
+    const record = (object: string, state: string) => {
+      const entry = { elapsedMs: Date.now() - startTime, object, state };
+      timeline.push(entry);
+      console.log(
+        `[K8sHelper] +${(entry.elapsedMs / 1000).toFixed(1)}s ${object}: ${state}`,
+      );
+    };
+    const upsert = (obj: T) => {
+      const name = obj.metadata?.name ?? "unknown";
+      objects.set(name, obj);
+      const state = spec.describe(obj);
+      if (states.get(name) !== state) {
+        states.set(name, state);
+        record(name, state);
+      }
+    };
+    const remove = (name: string) => {
+      if (!objects.delete(name)) return;
+      states.delete(name);
+      record(name, "Deleted");
+    };
+    const evaluate = (): WaitResult<F> | undefined => {
+      const { ready, failure } = spec.check([...objects.values()]);
+      if (failure !== undefined) return { status: "failed", failure, timeline };
+      if (ready) return { status: "ready", timeline };
+      return undefined;
+    };
+    const sync = async () => {
+      const { items, resourceVersion } = await spec.list();
+      const seen = new Set(items.map((item) => item.metadata?.name));
+      for (const name of [...objects.keys()]) {
+        if (!seen.has(name)) remove(name);
+      }
+      items.forEach(upsert);
+      return resourceVersion;
+    };
+
+    let resourceVersion: string | undefined;
+    try {
+      resourceVersion = await sync();
+      const result = evaluate();
+      if (result) return result;
+    } catch (err) {
+      console.log(`[K8sHelper] API error, retrying: ${err}`);
+    }
+
+    if (resourceVersion) {
+      const watched = await new Promise<WaitResult<F> | "dropped">(
+        (resolve) => {
+          let controller: AbortController | undefined;
+          let settled = false;
+          const settle = (value: WaitResult<F> | "dropped") => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            controller?.abort();
+            resolve(value);
+          };
+          const drop = (reason: string) => {
+            if (settled) return;
+            record("watch", `dropped (${reason}), polling`);
+            settle("dropped");
+          };
+          const timer = setTimeout(
+            () => settle({ status: "timeout", timeline }),
+            Math.max(0, deadline - Date.now()),
+          );
+
+          new k8s.Watch(this._kc)
+            .watch(
+              spec.watchPath,
+              { ...spec.queryParams, resourceVersion },
+              (type: string, obj: T) => {
+                if (settled) return;
+                if (type === "ERROR") return drop("error event");
+                if (type === "DELETED") remove(obj.metadata?.name ?? "unknown");
+                else if (type === "ADDED" || type === "MODIFIED") upsert(obj);
+                const result = evaluate();
+                if (result) settle(result);
+              },
+              (err: unknown) =>
+                drop(err instanceof Error ? err.message : "closed"),
+            )
+            .then((c) => {
+              controller = c;
+              if (settled) c.abort();
+            })
+            .catch((err: unknown) =>
+              drop(err instanceof Error ? err.message : String(err)),
+            );
+        },
+      );
+      if (watched !== "dropped") return watched;
+    }
+
+    while (Date.now() < deadline) {
+      try {
+        await sync();
+        const result = evaluate();
+        if (result) return result;
+      } catch (err) {
+        console.log(`[K8sHelper] API error, retrying: ${err}`);
+      }
+      await new Promise((r) =>
+        setTimeout(
+          r,
+          Math.min(spec.pollIntervalMs, Math.max(0, deadline - Date.now())),
+        ),
+      );
+    }
+    return { status: "timeout", timeline };
+  }
+
   /**
    * Collects diagnostic logs for all resources in a namespace and saves them as files.
    * Uses kubectl for cross-platform compatibility (works on OpenShift, EKS, GKE, etc.).
@@ -761,6 +1636,35 @@ class KubernetesClientHelper {
     }
   }
 
+  private _isPodReady(pod: k8s.V1Pod): boolean {
+    const ready = pod.status?.conditions?.find((c) => c.type === "Ready");
+    return ready?.status === "True";
+  }
+
+  /**
+   * Short, kubectl-like summary of a pod's state for the readiness timeline.
+   */
+  private _describePodState(pod: k8s.V1Pod): string {
+    const failure = this._checkPodFailure(pod);
+    if (failure) return failure.reason;
+    if (pod.metadata?.deletionTimestamp) return "Terminating";
+    if (this._isPodReady(pod)) return "Ready";
+
+    const inits = pod.status?.initContainerStatuses ?? [];
+    const initsDone = inits.filter(
+      (cs) => cs.state?.terminated?.exitCode === 0,
+    ).length;
+    if (initsDone < inits.length) return `Init:${initsDone}/${inits.length}`;
+
+    const waiting = (pod.status?.containerStatuses ?? []).find(
+      (cs) => cs.state?.waiting?.reason,
+    );
+    if (waiting) return waiting.state!.waiting!.reason!;
+
+    const phase = pod.status?.phase ?? "Pending";
+    return phase === "Running" ? "Running (not ready)" : phase;
+  }
+
   /**
    * Check if a pod is in a failure state. Returns failure info or null if healthy.
    */
@@ -796,4 +1700,4 @@ class KubernetesClientHelper {
   }
 }
 
-export { KubernetesClientHelper };
+export { KubernetesClientHelper, ReadinessError, formatReadinessTimeline };
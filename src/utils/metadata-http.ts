@@ -0,0 +1,150 @@
+import os from "os";
+import path from "path";
+import { DiskCache, retryingFetch, type RetryOptions } from "./http.js";
+
+export type MetadataHttpOptions = RetryOptions & {
+  /** Requests in flight at once in {@link MetadataHttpClient.map}. Default 8. */
+  concurrency?: number;
+  /** Sent to GitHub hosts as a Bearer token. Default `GITHUB_TOKEN`. */
+  token?: string;
+  /** Default `$TMPDIR/rhdh-e2e-metadata-cache`; `false` disables the cache */
+  cacheDir?: string | false;
+  /** How long cached files are used. Default 10 minutes. */
+  cacheTtlMs?: number;
+};
+
+/** Outcome of a request; `text` is null unless the response was 2xx. */
+export type MetadataResponse = {
+  url: string;
+  ok: boolean;
+  status: number;
+  statusText: string;
+  text: string | null;
+};
+
+const GITHUB_HOSTS = new Set([
+  "github.com",
+  "api.github.com",
+  "raw.githubusercontent.com",
+]);
+
+/**
+ * HTTP access for plugin metadata: source `package.json` files in PR builds
+ * and `default.packages.yaml` in nightly runs. Retries transient failures,
+ * caches GitHub files on disk by repository, ref and path so parallel
+ * workers and repeated runs share them, and bounds how many requests run
+ * at once.
+ */
+export class MetadataHttpClient {
+  private readonly _request: ReturnType<typeof retryingFetch>;
+  private readonly _concurrency: number;
+  private readonly _token: string | undefined;
+  private readonly _cache: DiskCache | null;
+
+  constructor(options: MetadataHttpOptions = {}) {
+    this._request = retryingFetch("[PluginMetadata] Request", options);
+    this._concurrency = Math.max(1, options.concurrency ?? 8);
+    this._token = options.token ?? (process.env.GITHUB_TOKEN || undefined);
+    const cacheDir =
+      options.cacheDir ?? path.join(os.tmpdir(), "rhdh-e2e-metadata-cache");
+    this._cache =
+      cacheDir === false
+        ? null
+        : new DiskCache(cacheDir, options.cacheTtlMs ?? 10 * 60_000);
+  }
+
+  /**
+   * GET `url` through {@link retryingFetch}. Responses that are still not 2xx
+   * are returned, with `text` null, for the caller to report.
+   */
+  async get(
+    url: string,
+    extraHeaders: Record<string, string> = {},
+  ): Promise<MetadataResponse> {
+    const headers: Record<string, string> = { ...extraHeaders };
+    if (this._token && GITHUB_HOSTS.has(new URL(url).host)) {
+      headers.Authorization = `Bearer ${this._token}`;
+    }
+
+    const response = await this._request(url, { headers });
+    return {
+      url,
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      text: response.ok ? await response.text() : null,
+    };
+  }
+
+  /**
+   * `filePath` of `ownerRepo` (e.g. `redhat-developer/rhdh`) at `ref`, from
+   * raw.githubusercontent.com. Only successful responses are cached.
+   */
+  async getGitHubFile(
+    ownerRepo: string,
+    ref: string,
+    filePath: string,
+  ): Promise<MetadataResponse> {
+    return await this.getCached(
+      `github/${ownerRepo}/${ref}/${filePath}`,
+      `https://raw.githubusercontent.com/${ownerRepo}/${ref}/${filePath}`,
+    );
+  }
+
+  /**
+   * {@link get}, served from the on-disk cache under `key` while fresh.
+   * `key` should name the repository, ref and path the URL points at.
+   * Only successful responses are cached.
+   */
+  async getCached(
+    key: string,
+    url: string,
+    headers?: Record<string, string>,
+  ): Promise<MetadataResponse> {
+    const text = this._cache?.get(key) ?? null;
+    if (text !== null) {
+      return { url, ok: true, status: 200, statusText: "OK", text };
+    }
+
+    const response = await this.get(url, headers);
+    if (response.ok && response.text !== null) {
+      this._cache?.set(key, response.text);
+    }
+    return response;
+  }
+
+  /**
+   * `fn` over `items` with at most `concurrency` calls pending; results keep
+   * the order of `items`. The first rejection rejects the whole map.
+   */
+  async map<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index]);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(this._concurrency, items.length) }, worker),
+    );
+    return results;
+  }
+}
+
+let active: MetadataHttpClient | undefined;
+
+/** Process-wide client used by plugin-metadata, created on first use. */
+export function getMetadataHttpClient(): MetadataHttpClient {
+  active ??= new MetadataHttpClient();
+  return active;
+}
+
+/**
+ * Replace the process-wide client, e.g. with one serving local fixtures.
+ * Pass nothing to go back to the default on next use.
+ */
+export function setMetadataHttpClient(client?: MetadataHttpClient): void {
+  active = client;
+}
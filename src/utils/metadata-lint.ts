@@ -0,0 +1,205 @@
+import fs from "fs-extra";
+import path from "path";
+import yaml from "js-yaml";
+import { glob } from "zx";
+import { DEFAULT_METADATA_PATH } from "./plugin-metadata.js";
+
+/** A problem found in a metadata file, pointing at the offending field. */
+export type MetadataIssue = {
+  file: string;
+  /** Dotted path, e.g. `spec.appConfigExamples[0].content` */
+  field: string;
+  message: string;
+};
+
+/** `backstage.role` values defined by the Backstage CLI. */
+export const KNOWN_BACKSTAGE_ROLES = [
+  "frontend",
+  "backend",
+  "cli",
+  "web-library",
+  "node-library",
+  "common-library",
+  "frontend-plugin",
+  "frontend-plugin-module",
+  "backend-plugin",
+  "backend-plugin-module",
+];
+
+const PATH_COMPONENT = "[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*";
+const OCI_REFERENCE = new RegExp(
+  `^oci://` +
+    `[a-zA-Z0-9](?:[a-zA-Z0-9.-]*[a-zA-Z0-9])?(?::[0-9]+)?` + // registry
+    `(?:/${PATH_COMPONENT})+` + // repository
+    `(?::[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}|@sha256:[a-f0-9]{64})` + // tag or digest
+    `(?:![A-Za-z0-9@/._-]+)?$`, // plugin path within the image
+);
+
+/**
+ * Whether `ref` is an `oci://registry/repository:tag` or `…@sha256:…`
+ * reference, optionally followed by `!<plugin path>`.
+ */
+export function isValidOciReference(ref: string): boolean {
+  return OCI_REFERENCE.test(ref);
+}
+
+type PackageDocument = {
+  kind?: unknown;
+  spec?: {
+    packageName?: unknown;
+    dynamicArtifact?: unknown;
+    backstage?: { role?: unknown };
+    appConfigExamples?: unknown;
+  };
+};
+
+/** Issues in one parsed Package document. */
+export function lintPackageDocument(
+  doc: PackageDocument,
+  file: string,
+): MetadataIssue[] {
+  const issues: MetadataIssue[] = [];
+  const issue = (field: string, message: string) =>
+    issues.push({ file, field, message });
+  const spec = doc.spec;
+
+  if (!spec || typeof spec !== "object") {
+    issue("spec", "is required");
+    return issues;
+  }
+
+  if (typeof spec.packageName !== "string" || !spec.packageName) {
+    issue("spec.packageName", "is required");
+  }
+
+  const artifact = spec.dynamicArtifact;
+  if (typeof artifact !== "string" || !artifact) {
+    issue("spec.dynamicArtifact", "is required");
+  } else if (artifact.startsWith("oci://")) {
+    if (!isValidOciReference(artifact)) {
+      issue(
+        "spec.dynamicArtifact",
+        `"${artifact}" is not a valid OCI reference (expected oci://registry/repository:tag or @sha256:<digest>, optionally !<plugin>)`,
+      );
+    }
+  } else if (!artifact.startsWith("./")) {
+    issue(
+      "spec.dynamicArtifact",
+      `"${artifact}" is neither an oci:// reference nor a ./ path`,
+    );
+  }
+
+  const role = spec.backstage?.role;
+  if (role !== undefined && !KNOWN_BACKSTAGE_ROLES.includes(role as string)) {
+    issue(
+      "spec.backstage.role",
+      `unknown role "${role}" (expected one of ${KNOWN_BACKSTAGE_ROLES.join(", ")})`,
+    );
+  }
+
+  const examples = spec.appConfigExamples;
+  if (examples !== undefined) {
+    if (!Array.isArray(examples)) {
+      issue("spec.appConfigExamples", "must be a list");
+    } else {
+      examples.forEach((example, index) => {
+        const field = `spec.appConfigExamples[${index}].content`;
+        const message = contentError(
+          (example as { content?: unknown } | null)?.content,
+        );
+        if (message) issue(field, message);
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Lint metadata files: every Package document in each, plus package names
+ * declared by more than one file.
+ */
+export async function lintMetadataFiles(
+  files: string[],
+): Promise<MetadataIssue[]> {
+  const issues: MetadataIssue[] = [];
+  const declaredIn = new Map<string, string>();
+
+  for (const file of files) {
+    let docs: unknown[];
+    try {
+      docs = yaml.loadAll(await fs.readFile(file, "utf8"));
+    } catch (error) {
+      issues.push({
+        file,
+        field: "(document)",
+        message: `is not valid YAML: ${(error as Error).message.split("\n")[0]}`,
+      });
+      continue;
+    }
+
+    const packages = docs.filter(
+      (doc): doc is PackageDocument =>
+        (doc as PackageDocument | null)?.kind === "Package",
+    );
+    if (packages.length === 0) {
+      issues.push({ file, field: "kind", message: "no Package document" });
+    }
+
+    for (const doc of packages) {
+      issues.push(...lintPackageDocument(doc, file));
+
+      const packageName = doc.spec?.packageName;
+      if (typeof packageName !== "string" || !packageName) continue;
+      const first = declaredIn.get(packageName);
+      if (first) {
+        issues.push({
+          file,
+          field: "spec.packageName",
+          message: `"${packageName}" is already declared in ${first}`,
+        });
+      } else {
+        declaredIn.set(packageName, file);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/** Lint every `*.yaml` file of a metadata directory. */
+export async function lintMetadataDirectory(
+  metadataDir: string = DEFAULT_METADATA_PATH,
+): Promise<MetadataIssue[]> {
+  const resolvedDir = path.resolve(metadataDir);
+  if (!fs.existsSync(resolvedDir)) {
+    throw new Error(
+      `[MetadataLint] Metadata directory not found: ${resolvedDir}`,
+    );
+  }
+  const files = (await glob(path.join(resolvedDir, "*.yaml"))).sort();
+  return await lintMetadataFiles(files);
+}
+
+/** `file: field: message` lines, one per issue. */
+export function formatMetadataIssues(issues: MetadataIssue[]): string {
+  return issues
+    .map(({ file, field, message }) => `${file}: ${field}: ${message}`)
+    .join("\n");
+}
+
+// appConfigExamples content is an object, or YAML text parsing to one
+function contentError(content: unknown): string | undefined {
+  let value = content;
+  if (typeof content === "string") {
+    try {
+      value = yaml.load(content);
+    } catch (error) {
+      return `is not valid YAML: ${(error as Error).message.split("\n")[0]}`;
+    }
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "must be an object";
+  }
+  return undefined;
+}
@@ -0,0 +1,194 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  MissingPluginArtifactsError,
+  formatPluginArtifactChecks,
+  parseOciPackage,
+  verifyPluginArtifacts,
+} from "./plugin-artifacts.js";
+import {
+  InMemoryRegistryClient,
+  type RegistryClient,
+} from "./registry-client.js";
+
+const REPO = "redhat-developer/rhdh-plugin-export-overlays";
+const PR_TAG = "pr_42__3.34.0";
+const DIGEST = `sha256:${"a".repeat(64)}`;
+
+describe("parseOciPackage", () => {
+  it("splits registry, repository and tag or digest", () => {
+    assert.deepStrictEqual(
+      parseOciPackage(`oci://ghcr.io/${REPO}/tekton:${PR_TAG}!tekton`),
+      {
+        registry: "ghcr.io",
+        repository: `${REPO}/tekton`,
+        reference: PR_TAG,
+      },
+    );
+    assert.deepStrictEqual(
+      parseOciPackage(`oci://localhost:5000/plugins/x@${DIGEST}!x`),
+      {
+        registry: "localhost:5000",
+        repository: "plugins/x",
+        reference: DIGEST,
+      },
+    );
+    assert.deepStrictEqual(parseOciPackage("oci://localhost:5000/plugins/x"), {
+      registry: "localhost:5000",
+      repository: "plugins/x",
+      reference: "latest",
+    });
+  });
+
+  it("returns null for local paths and malformed references", () => {
+    assert.strictEqual(parseOciPackage("./dynamic-plugins/dist/x"), null);
+    assert.strictEqual(parseOciPackage("oci://ghcr.io"), null);
+  });
+});
+
+describe("verifyPluginArtifacts", () => {
+  const registry = new InMemoryRegistryClient(
+    {
+      [`${REPO}/tekton`]: [
+        { name: PR_TAG, digest: "sha256:tekton" },
+        { name: `${PR_TAG}__coverage`, digest: "sha256:coverage" },
+      ],
+      [`${REPO}/topology`]: [{ name: DIGEST, digest: DIGEST }],
+    },
+    "ghcr.io",
+  );
+
+  it("resolves digests and reports missing artifacts", async () => {
+    const checks = await verifyPluginArtifacts(
+      {
+        plugins: [
+          { package: `oci://ghcr.io/${REPO}/tekton:${PR_TAG}!tekton` },
+          {
+            package: `oci://ghcr.io/${REPO}/tekton:${PR_TAG}__coverage!tekton`,
+          },
+          { package: `oci://ghcr.io/${REPO}/topology@${DIGEST}!topology` },
+          { package: `oci://ghcr.io/${REPO}/scorecard:pr_42__1.0.0!scorecard` },
+          // Not checked: RHDH resolves {{inherit}}, disabled and local plugins
+          { package: "oci://registry.access.redhat.com/rhdh/x:{{inherit}}" },
+          { package: `oci://ghcr.io/${REPO}/gone:1.0!gone`, disabled: true },
+          { package: "./dynamic-plugins/dist/local" },
+        ],
+      },
+      { clientFor: () => registry },
+    );
+
+    assert.deepStrictEqual(
+      checks.map(({ image, status, digest }) => ({ image, status, digest })),
+      [
+        {
+          image: `ghcr.io/${REPO}/tekton:${PR_TAG}`,
+          status: "found",
+          digest: "sha256:tekton",
+        },
+        {
+          image: `ghcr.io/${REPO}/tekton:${PR_TAG}__coverage`,
+          status: "found",
+          digest: "sha256:coverage",
+        },
+        {
+          image: `ghcr.io/${REPO}/topology@${DIGEST}`,
+          status: "found",
+          digest: DIGEST,
+        },
+        {
+          image: `ghcr.io/${REPO}/scorecard:pr_42__1.0.0`,
+          status: "missing",
+          digest: undefined,
+        },
+      ],
+    );
+  });
+
+  it("looks each image up once and marks registry errors unverified", async () => {
+    const hosts: string[] = [];
+    let lookups = 0;
+    const failing: RegistryClient = {
+      host: "quay.io",
+      listTags: async () => [],
+      getDigest: async () => {
+        lookups++;
+        throw new Error("HTTP 401 Unauthorized");
+      },
+    };
+
+    const checks = await verifyPluginArtifacts(
+      {
+        plugins: [
+          { package: "oci://quay.io/private/plugins:1.0!a" },
+          { package: "oci://quay.io/private/plugins:1.0!b" },
+        ],
+      },
+      {
+        clientFor: (host) => {
+          hosts.push(host);
+          return failing;
+        },
+      },
+    );
+
+    assert.deepStrictEqual(hosts, ["quay.io"]);
+    assert.strictEqual(lookups, 1);
+    assert.deepStrictEqual(
+      checks.map((c) => [c.package, c.status, c.error]),
+      [
+        [
+          "oci://quay.io/private/plugins:1.0!a",
+          "unverified",
+          "HTTP 401 Unauthorized",
+        ],
+        [
+          "oci://quay.io/private/plugins:1.0!b",
+          "unverified",
+          "HTTP 401 Unauthorized",
+        ],
+      ],
+    );
+  });
+});
+
+describe("formatPluginArtifactChecks / MissingPluginArtifactsError", () => {
+  const checks = [
+    {
+      package: "oci://ghcr.io/org/a:1!a",
+      image: "ghcr.io/org/a:1",
+      status: "found" as const,
+      digest: "sha256:abc",
+    },
+    {
+      package: "oci://ghcr.io/org/b:2!b",
+      image: "ghcr.io/org/b:2",
+      status: "missing" as const,
+    },
+  ];
+
+  it("renders one row per package", () => {
+    assert.strictEqual(
+      formatPluginArtifactChecks(checks),
+      [
+        "Status  | Image           | Digest",
+        "--------|-----------------|-----------",
+        "found   | ghcr.io/org/a:1 | sha256:abc",
+        "missing | ghcr.io/org/b:2 | -",
+      ].join("\n"),
+    );
+    assert.strictEqual(
+      formatPluginArtifactChecks([]),
+      "No OCI plugin artifacts to verify.",
+    );
+  });
+
+  it("lists the missing packages", () => {
+    const error = new MissingPluginArtifactsError([checks[1]]);
+    assert.strictEqual(
+      error.message,
+      "[PluginArtifacts] 1 plugin artifact(s) not found in their registries:\n" +
+        "  oci://ghcr.io/org/b:2!b",
+    );
+    assert.deepStrictEqual(error.missing, [checks[1]]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { DynamicPluginsConfig } from "./plugin-metadata.js";
+import { OciRegistryClient, type RegistryClient } from "./registry-client.js";
+import { formatTable } from "./common.js";
+
+/** Registry, repository and tag or digest of an `oci://` plugin package. */
+export type OciArtifactRef = {
+  registry: string;
+  repository: string;
+  /** Tag, or `sha256:…` digest */
+  reference: string;
+};
+
+export type PluginArtifactStatus = "found" | "missing" | "unverified";
+
+/** Outcome of checking one plugin package against its registry. */
+export type PluginArtifactCheck = {
+  package: string;
+  /** `registry/repository:tag` or `registry/repository@sha256:…` */
+  image: string;
+  status: PluginArtifactStatus;
+  /** Manifest digest, when found */
+  digest?: string;
+  /** Why the registry could not answer, when unverified */
+  error?: string;
+};
+
+export type VerifyPluginArtifactsOptions = {
+  /**
+   * Client for a registry host. Defaults to an uncached
+   * {@link OciRegistryClient}, over plain HTTP for `localhost`.
+   */
+  clientFor?: (host: string) => RegistryClient;
+};
+
+/** Thrown when resolved plugin packages point at artifacts that do not exist. */
+export class MissingPluginArtifactsError extends Error {
+  constructor(readonly missing: PluginArtifactCheck[]) {
+    super(
+      `[PluginArtifacts] ${missing.length} plugin artifact(s) not found in their registries:\n` +
+        missing.map((check) => `  ${check.package}`).join("\n"),
+    );
+    this.name = "MissingPluginArtifactsError";
+  }
+}
+
+const LOCAL_REGISTRY = /^(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+/**
+ * Parse `oci://registry/repository:tag!plugin` or `…@sha256:…!plugin`.
+ * A missing tag means `latest`. Returns null for anything else.
+ */
+export function parseOciPackage(pkg: string): OciArtifactRef | null {
+  if (!pkg.startsWith("oci://")) return null;
+  const ref = pkg.slice("oci://".length).split("!")[0];
+  const slash = ref.indexOf("/");
+  if (slash <= 0) return null;
+
+  const registry = ref.slice(0, slash);
+  let name = ref.slice(slash + 1);
+  let reference = "latest";
+  const at = name.indexOf("@");
+  if (at >= 0) {
+    reference = name.slice(at + 1);
+    name = name.slice(0, at);
+  } else {
+    const colon = name.lastIndexOf(":");
+    if (colon > name.lastIndexOf("/")) {
+      reference = name.slice(colon + 1);
+      name = name.slice(0, colon);
+    }
+  }
+  if (!name || !reference) return null;
+  return { registry, repository: name, reference };
+}
+
+/**
+ * Check that every enabled `oci://` plugin package (PR `pr_<n>__<version>`
+ * tags, `__coverage` tags, metadata refs, digests) exists, by asking its
+ * registry for the manifest through the OCI distribution API. Packages
+ * using `{{inherit}}` are resolved by RHDH itself and are not checked.
+ * Registry errors other than "not found" mark a package unverified.
+ */
+export async function verifyPluginArtifacts(
+  config: DynamicPluginsConfig,
+  options: VerifyPluginArtifactsOptions = {},
+): Promise<PluginArtifactCheck[]> {
+  const clientFor =
+    options.clientFor ??
+    ((host: string) =>
+      new OciRegistryClient(host, { plainHttp: LOCAL_REGISTRY.test(host) }));
+  const clients = new Map<string, RegistryClient>();
+  const lookups = new Map<
+    string,
+    Promise<Omit<PluginArtifactCheck, "package">>
+  >();
+
+  const lookup = (artifact: OciArtifactRef) => {
+    const { registry, repository, reference } = artifact;
+    const image = reference.startsWith("sha256:")
+      ? `${registry}/${repository}@${reference}`
+      : `${registry}/${repository}:${reference}`;
+    let result = lookups.get(image);
+    if (!result) {
+      let client = clients.get(registry);
+      if (!client) {
+        client = clientFor(registry);
+        clients.set(registry, client);
+      }
+      result = client.getDigest(repository, reference).then(
+        (digest) =>
+          digest
+            ? { image, status: "found" as const, digest }
+            : { image, status: "missing" as const },
+        (error: Error) => ({
+          image,
+          status: "unverified" as const,
+          error: error.message,
+        }),
+      );
+      lookups.set(image, result);
+    }
+    return result;
+  };
+
+  const checks: Array<Promise<PluginArtifactCheck>> = [];
+  for (const plugin of config.plugins ?? []) {
+    if (plugin.disabled) continue;
+    const artifact = parseOciPackage(plugin.package);
+    if (!artifact || artifact.reference.includes("{{inherit}}")) continue;
+    checks.push(
+      lookup(artifact).then((result) => ({
+        package: plugin.package,
+        ...result,
+      })),
+    );
+  }
+  return await Promise.all(checks);
+}
+
+/** One row per checked package: status, image and digest or error. */
+export function formatPluginArtifactChecks(
+  checks: PluginArtifactCheck[],
+): string {
+  if (checks.length === 0) return "No OCI plugin artifacts to verify.";
+  return formatTable([
+    ["Status", "Image", "Digest"],
+    ...checks.map((c) => [c.status, c.image, c.digest ?? c.error ?? "-"]),
+  ]);
+}
@@ -3,7 +3,10 @@ import path from "path";
 import yaml from "js-yaml";
 import { glob } from "zx";
 import { deepMerge } from "./merge-yamls.js";
-import { isCoverageEnabled } from "./common.js";
+import { formatTable, isCoverageEnabled } from "./common.js";
+import { getRegistryMirror } from "./registry-mirror.js";
+import { getMetadataHttpClient } from "./metadata-http.js";
+import { createSourceProvider } from "./source-provider.js";
 
 const OCI_REGISTRY_PREFIX =
   "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays";
@@ -45,6 +48,38 @@ export interface DynamicPluginsConfig {
   [key: string]: unknown;
 }
 
+/**
+ * Rule that resolved a package:
+ * - `pr-oci`: the PR's published OCI image
+ * - `dpdy-inherit`: nightly, in default.packages.yaml → `{{inherit}}`
+ * - `metadata-oci` / `metadata-path`: the metadata's dynamicArtifact
+ * - `unchanged`: no metadata, kept as-is
+ */
+export type PluginResolutionRule =
+  | "pr-oci"
+  | "dpdy-inherit"
+  | "metadata-oci"
+  | "metadata-path"
+  | "unchanged";
+
+/** Why one plugin entry resolved the way it did. */
+export interface PluginResolutionTrace {
+  plugin: string;
+  input: string;
+  /** Final package, after registry mirror rewrites */
+  resolved: string;
+  mode: "pr" | "nightly" | "local";
+  rule: PluginResolutionRule;
+  /** Listed in default.packages.yaml; only known in nightly mode */
+  inDefaultPackages?: boolean;
+  /** appConfigExamples from metadata were merged into pluginConfig */
+  configInjected: boolean;
+  /** `__coverage` tag applied */
+  coverage: boolean;
+  /** Rewritten by a `REGISTRY_MIRRORS` rule */
+  mirrored: boolean;
+}
+
 // ── Detection ─────────────────────────────────────────────────────────────────
 
 /**
@@ -82,12 +117,10 @@ export function isNightlyJob(): boolean {
 
 // ── Default Packages (DPDY) ──────────────────────────────────────────────────
 
-const DEFAULT_PACKAGES_BASE_URL =
-  "https://raw.githubusercontent.com/redhat-developer/rhdh-plugin-export-overlays/refs/heads";
+const DEFAULT_PACKAGES_REPO = "redhat-developer/rhdh-plugin-export-overlays";
 
 // release-1.10 still hosts default.packages.yaml in the rhdh repo (pre-migration)
-const LEGACY_DEFAULT_PACKAGES_BASE_URL =
-  "https://raw.githubusercontent.com/redhat-developer/rhdh/refs/heads";
+const LEGACY_DEFAULT_PACKAGES_REPO = "redhat-developer/rhdh";
 
 const DEFAULT_DPDY_OCI_REGISTRY = "registry.access.redhat.com/rhdh";
 
@@ -121,27 +154,29 @@ export async function fetchDefaultPackages(): Promise<Set<string>> {
     );
   }
   const resolvedBranch = branch || "main";
-  const baseUrl =
+  const repo =
     resolvedBranch === "release-1.10"
-      ? LEGACY_DEFAULT_PACKAGES_BASE_URL
-      : DEFAULT_PACKAGES_BASE_URL;
-  const url = `${baseUrl}/${resolvedBranch}/default.packages.yaml`;
+      ? LEGACY_DEFAULT_PACKAGES_REPO
+      : DEFAULT_PACKAGES_REPO;
 
   console.log(
-    `[PluginMetadata] Fetching default packages from ${url} (branch: ${resolvedBranch})...`,
+    `[PluginMetadata] Fetching default packages from ${repo} (branch: ${resolvedBranch})...`,
   );
 
-  const response = await fetch(url);
+  const response = await getMetadataHttpClient().getGitHubFile(
+    repo,
+    `refs/heads/${resolvedBranch}`,
+    "default.packages.yaml",
+  );
   if (!response.ok) {
     throw new Error(
       `[PluginMetadata] Failed to fetch default.packages.yaml: ${response.status} ${response.statusText}\n` +
-        `  URL: ${url}\n` +
+        `  URL: ${response.url}\n` +
         `  Branch: ${resolvedBranch} (from RELEASE_BRANCH_NAME)`,
     );
   }
 
-  const content = await response.text();
-  const parsed = yaml.load(content) as DefaultPackagesYaml;
+  const parsed = yaml.load(response.text ?? "") as DefaultPackagesYaml;
 
   const packages = new Set<string>();
   for (const list of [parsed?.packages?.enabled, parsed?.packages?.disabled]) {
@@ -362,13 +397,11 @@ async function getOCIUrlsForPR(
     );
   }
 
-  const match = repo.match(/github\.com\/(.+?)(?:\.git)?$/);
-  if (!match) {
-    throw new Error(
-      `[PluginMetadata] Failed to parse GitHub repo from source.json: ${repo}`,
-    );
-  }
-  const ownerRepo = match[1];
+  const provider = createSourceProvider({
+    repo,
+    ref,
+    provider: sourceJson["repo-provider"],
+  });
 
   const pluginsListContent = await fs.readFile(pluginsListPath, "utf-8");
   const pluginsListData = yaml.load(pluginsListContent) as Record<
@@ -386,41 +419,47 @@ async function getOCIUrlsForPR(
   const workspaceName = path.basename(workspacePath);
 
   console.log(
-    `[PluginMetadata] Fetching versions for ${pluginPaths.length} plugins from source...`,
+    `[PluginMetadata] Fetching versions for ${pluginPaths.length} plugins from ${provider.label}...`,
   );
 
-  for (const pluginPath of pluginPaths) {
-    const pkgJsonPath = repoFlat
-      ? `${pluginPath}/package.json`
-      : `workspaces/${workspaceName}/${pluginPath}/package.json`;
-
-    const rawUrl = `https://raw.githubusercontent.com/${ownerRepo}/${ref}/${pkgJsonPath}`;
+  const resolved = await getMetadataHttpClient()
+    .map(pluginPaths, async (pluginPath) => {
+      const pkgJsonPath = repoFlat
+        ? `${pluginPath}/package.json`
+        : `workspaces/${workspaceName}/${pluginPath}/package.json`;
+
+      const { text, location } = await provider.readFile(pkgJsonPath);
+
+      let pkgJson: { name?: string; version?: string };
+      try {
+        pkgJson = JSON.parse(text);
+      } catch (error) {
+        throw new Error(
+          `[PluginMetadata] package.json for ${pluginPath} is not valid JSON\n` +
+            `  Source: ${location}`,
+          { cause: error },
+        );
+      }
 
-    const res = await fetch(rawUrl);
-    if (!res.ok) {
-      throw new Error(
-        `[PluginMetadata] Failed to fetch package.json for ${pluginPath}: ${res.status} ${res.statusText}\n` +
-          `  URL: ${rawUrl}`,
-      );
-    }
+      if (!pkgJson.name) {
+        throw new Error(
+          `[PluginMetadata] package.json is missing 'name' field for ${pluginPath}\n` +
+            `  Source: ${location}`,
+        );
+      }
 
-    const pkgJson = (await res.json()) as { name?: string; version?: string };
+      if (!pkgJson.version) {
+        throw new Error(
+          `[PluginMetadata] package.json is missing 'version' field for ${pluginPath}\n` +
+            `  Source: ${location}`,
+        );
+      }
 
-    if (!pkgJson.name) {
-      throw new Error(
-        `[PluginMetadata] package.json is missing 'name' field for ${pluginPath}\n` +
-          `  URL: ${rawUrl}`,
-      );
-    }
+      return { name: pkgJson.name, version: pkgJson.version };
+    })
+    .finally(() => provider.close());
 
-    if (!pkgJson.version) {
-      throw new Error(
-        `[PluginMetadata] package.json is missing 'version' field for ${pluginPath}\n` +
-          `  URL: ${rawUrl}`,
-      );
-    }
-
-    const { name, version } = pkgJson;
+  for (const { name, version } of resolved) {
     const displayName = toDisplayName(name);
     // TODO(RHDHBUGS-2530): Remove !alias suffix once Konflux builds include
     // io.backstage.dynamic-packages annotation.
@@ -459,12 +498,18 @@ export function getNormalizedPluginMergeKey(entry: {
   return extractPluginName(pkg);
 }
 
+type ResolvedPlugin = {
+  entry: PluginEntry;
+  rule: PluginResolutionRule;
+  coverage: boolean;
+};
+
 async function resolvePluginPackages(
   plugins: PluginEntry[],
   metadataMap: Map<string, PluginMetadata>,
   metadataPath: string,
   dpdyPackages: Set<string> | null = null,
-): Promise<PluginEntry[]> {
+): Promise<ResolvedPlugin[]> {
   // Build PR OCI URLs if applicable
   const prNumber = process.env.GIT_PR_NUMBER;
   let prOciUrls: Map<string, string> | null = null;
@@ -495,7 +540,11 @@ async function resolvePluginPackages(
             ? prUrl.replace(/(:[^!]+)/, "$1__coverage")
             : prUrl;
           console.log(`[PluginMetadata] PR: ${pkg} → ${resolved}`);
-          return { ...plugin, package: resolved };
+          return {
+            entry: { ...plugin, package: resolved },
+            rule: "pr-oci",
+            coverage: usesCoverage,
+          };
         }
       }
 
@@ -510,13 +559,21 @@ async function resolvePluginPackages(
         const registry = getDpdyRegistry(metadata.packageName);
         const inheritRef = `oci://${registry}/${displayName}:{{inherit}}`;
         console.log(`[PluginMetadata] DPDY inherit: ${pkg} → ${inheritRef}`);
-        return { ...plugin, package: inheritRef };
+        return {
+          entry: { ...plugin, package: inheritRef },
+          rule: "dpdy-inherit",
+          coverage: false,
+        };
       }
 
       // OCI: use metadata's dynamicArtifact directly (not in default.packages.yaml, or not nightly).
       if (metadata.packagePath.startsWith("oci://")) {
         console.log(`[PluginMetadata] ${pkg} → ${metadata.packagePath}`);
-        return { ...plugin, package: metadata.packagePath };
+        return {
+          entry: { ...plugin, package: metadata.packagePath },
+          rule: "metadata-oci",
+          coverage: false,
+        };
       }
 
       // Wrapper (local path): metadata is the source of truth.
@@ -524,11 +581,15 @@ async function resolvePluginPackages(
       if (pkg !== metadata.packagePath) {
         console.log(`[PluginMetadata] ${pkg} → ${metadata.packagePath}`);
       }
-      return { ...plugin, package: metadata.packagePath };
+      return {
+        entry: { ...plugin, package: metadata.packagePath },
+        rule: "metadata-path",
+        coverage: false,
+      };
     }
 
     // 2. No metadata — keep as-is (cross-workspace, npm packages, etc.)
-    return plugin;
+    return { entry: plugin, rule: "unchanged", coverage: false };
   });
 }
 
@@ -637,7 +698,10 @@ export function disablePlugins(plugins: string[]): DynamicPluginsConfig {
       disabled: true,
     });
     pluginConfig.plugins!.push({
-      package: `oci://${registry}/${name}:{{inherit}}`,
+      package: getRegistryMirror().rewrite(
+        `oci://${registry}/${name}:{{inherit}}`,
+        "disablePlugins",
+      ),
       disabled: true,
     });
   }
@@ -719,20 +783,24 @@ function selectMetadataForInjection(
  *    - Nightly DPDY + OCI: {{inherit}} tag with configurable registry
  *      (NIGHTLY_DPDY_OCI_REGISTRY_MAP > NIGHTLY_DPDY_OCI_REGISTRY > registry.access.redhat.com/rhdh)
  *    - Nightly (not in default.packages.yaml) / local: metadata's dynamicArtifact as-is
+ * 3. Rewrite OCI packages through the `REGISTRY_MIRRORS` rules, if any
  *
  * @param config The merged dynamic plugins configuration
  * @param metadataPath Optional custom path to metadata directory
  * @param dpdyPackages Optional pre-loaded DPDY package set (for testing; fetched automatically if omitted in nightly)
+ * @param trace Optional array receiving one {@link PluginResolutionTrace} per plugin entry
  * @returns Processed configuration ready for deployment
  */
 export async function processPluginsForDeployment(
   config: DynamicPluginsConfig,
   metadataPath: string = DEFAULT_METADATA_PATH,
   dpdyPackages?: Set<string>,
+  trace?: PluginResolutionTrace[],
 ): Promise<DynamicPluginsConfig> {
   if (!config.plugins) return config;
 
   const nightly = isNightlyJob();
+  const inputs = config.plugins.map((plugin) => plugin.package);
 
   const [metadataMap, resolvedDpdyPackages] = await Promise.all([
     tryLoadMetadata(metadataPath),
@@ -756,15 +824,88 @@ export async function processPluginsForDeployment(
 
   // Resolve all packages to OCI references
   console.log("[PluginMetadata] Resolving plugin packages...");
-  result = {
-    ...result,
-    plugins: await resolvePluginPackages(
-      result.plugins!,
-      metadataMap,
-      metadataPath,
-      resolvedDpdyPackages,
-    ),
-  };
+  const resolved = await resolvePluginPackages(
+    result.plugins!,
+    metadataMap,
+    metadataPath,
+    resolvedDpdyPackages,
+  );
+  result = { ...result, plugins: resolved.map(({ entry }) => entry) };
+
+  const mirror = getRegistryMirror();
+  if (mirror.enabled) {
+    result.plugins = result.plugins!.map((plugin) =>
+      plugin.package?.startsWith("oci://")
+        ? {
+            ...plugin,
+            package: mirror.rewrite(plugin.package, "dynamic-plugins"),
+          }
+        : plugin,
+    );
+  }
+
+  if (trace) {
+    const mode = nightly
+      ? "nightly"
+      : process.env.GIT_PR_NUMBER
+        ? "pr"
+        : "local";
+    resolved.forEach(({ entry, rule, coverage }, index) => {
+      const plugin = extractPluginName(inputs[index]);
+      const packageName = metadataMap.get(plugin)?.packageName;
+      trace.push({
+        plugin,
+        input: inputs[index],
+        resolved: result.plugins![index].package,
+        mode,
+        rule,
+        ...(resolvedDpdyPackages
+          ? {
+              inDefaultPackages: Boolean(
+                packageName && resolvedDpdyPackages.has(packageName),
+              ),
+            }
+          : {}),
+        configInjected: Boolean(metadataToInject?.has(plugin)),
+        coverage,
+        mirrored: result.plugins![index].package !== entry.package,
+      });
+    });
+  }
 
   return result;
 }
+
+/**
+ * Render a resolution trace as a plain-text table, one row per plugin
+ * entry. `DPDY` is `-` outside nightly mode.
+ */
+export function formatResolutionTrace(trace: PluginResolutionTrace[]): string {
+  if (trace.length === 0) return "No dynamic plugins resolved.";
+  const yesNo = (value: boolean | undefined) =>
+    value === undefined ? "-" : value ? "yes" : "no";
+  return formatTable([
+    [
+      "Plugin",
+      "Mode",
+      "Rule",
+      "DPDY",
+      "Config",
+      "Coverage",
+      "Mirrored",
+      "Input",
+      "Resolved",
+    ],
+    ...trace.map((t) => [
+      t.plugin,
+      t.mode,
+      t.rule,
+      yesNo(t.inDefaultPackages),
+      yesNo(t.configInjected),
+      yesNo(t.coverage),
+      yesNo(t.mirrored),
+      t.input,
+      t.resolved === t.input ? "(same)" : t.resolved,
+    ]),
+  ]);
+}
@@ -0,0 +1,167 @@
+/* eslint-disable @typescript-eslint/naming-convention -- registry responses use snake_case keys, headers and repository names */
+import { describe, it, after } from "node:test";
+import assert from "node:assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  CachedRegistryClient,
+  InMemoryRegistryClient,
+  OciRegistryClient,
+  QuayRegistryClient,
+} from "./registry-client.js";
+import { fakeFetch } from "./tests/helpers.js";
+
+const json = (body: unknown, init?: ResponseInit) =>
+  new Response(JSON.stringify(body), init);
+
+describe("QuayRegistryClient", () => {
+  it("follows pages until has_additional is false", async () => {
+    const { requests, fetchFn } = fakeFetch((url) =>
+      url.includes("page=1")
+        ? json({
+            tags: [{ name: "a", manifest_digest: "sha256:1" }],
+            has_additional: true,
+          })
+        : json({ tags: [{ name: "b" }], has_additional: false }),
+    );
+    const client = new QuayRegistryClient("quay.io", { fetch: fetchFn });
+
+    assert.deepStrictEqual(await client.listTags("rhdh/chart"), [
+      { name: "a", digest: "sha256:1" },
+      { name: "b", digest: undefined },
+    ]);
+    assert.strictEqual(requests.length, 2);
+  });
+
+  it("retries 5xx responses and network errors", async () => {
+    let calls = 0;
+    const { fetchFn } = fakeFetch(() => {
+      calls++;
+      if (calls === 1) throw new TypeError("fetch failed");
+      if (calls === 2) return new Response("", { status: 503 });
+      return json({ tags: [{ name: "1.9-1-CI" }] });
+    });
+    const client = new QuayRegistryClient("quay.io", {
+      fetch: fetchFn,
+      retryDelayMs: 0,
+    });
+
+    assert.deepStrictEqual(
+      (await client.listTags("rhdh/chart")).map((t) => t.name),
+      ["1.9-1-CI"],
+    );
+    assert.strictEqual(calls, 3);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const { fetchFn } = fakeFetch(() => new Response("", { status: 502 }));
+    const client = new QuayRegistryClient("quay.io", {
+      fetch: fetchFn,
+      retries: 1,
+      retryDelayMs: 0,
+    });
+    await assert.rejects(client.listTags("rhdh/chart"), /HTTP 502/);
+  });
+});
+
+describe("OciRegistryClient", () => {
+  it("fetches an anonymous token from the challenge and follows Link pages", async () => {
+    const { requests, fetchFn } = fakeFetch((url, init) => {
+      const auth = (init?.headers as Record<string, string> | undefined)?.[
+        "Authorization"
+      ];
+      if (url.startsWith("https://ghcr.io/token")) {
+        return json({ token: "anon" });
+      }
+      if (auth !== "Bearer anon") {
+        return new Response("", {
+          status: 401,
+          headers: {
+            "www-authenticate":
+              'Bearer realm="https://ghcr.io/token",service="ghcr.io",scope="repository:org/img:pull"',
+          },
+        });
+      }
+      if (url.includes("last=b")) return json({ tags: ["c"] });
+      return json(
+        { tags: ["a", "b"] },
+        {
+          headers: {
+            link: '</v2/org/img/tags/list?last=b&n=1000>; rel="next"',
+          },
+        },
+      );
+    });
+    const client = new OciRegistryClient("ghcr.io", { fetch: fetchFn });
+
+    assert.deepStrictEqual(
+      (await client.listTags("org/img")).map((t) => t.name),
+      ["a", "b", "c"],
+    );
+    assert.ok(
+      requests.some(
+        (request) =>
+          request.url ===
+          "https://ghcr.io/token?service=ghcr.io&scope=repository%3Aorg%2Fimg%3Apull",
+      ),
+    );
+  });
+
+  it("reads the digest header and returns null for missing tags", async () => {
+    const { fetchFn } = fakeFetch((url) =>
+      url.endsWith(":missing") || url.endsWith("/missing")
+        ? new Response(null, { status: 404 })
+        : new Response(null, {
+            headers: { "docker-content-digest": "sha256:abc" },
+          }),
+    );
+    const client = new OciRegistryClient("ghcr.io", {
+      fetch: fetchFn,
+      token: "t",
+    });
+
+    assert.strictEqual(await client.getDigest("org/img", "1.0"), "sha256:abc");
+    assert.strictEqual(await client.getDigest("org/img", "missing"), null);
+  });
+
+  it("talks plain HTTP when asked", async () => {
+    const { requests, fetchFn } = fakeFetch(
+      () =>
+        new Response(null, {
+          headers: { "docker-content-digest": "sha256:abc" },
+        }),
+    );
+    const client = new OciRegistryClient("localhost:5000", {
+      fetch: fetchFn,
+      plainHttp: true,
+    });
+
+    await client.getDigest("plugins/tekton", "pr_1__1.0.0");
+    assert.deepStrictEqual(
+      requests.map((request) => request.url),
+      ["http://localhost:5000/v2/plugins/tekton/manifests/pr_1__1.0.0"],
+    );
+  });
+});
+
+describe("CachedRegistryClient", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "registry-cache-"));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("serves repeated lookups from disk until the ttl expires", async () => {
+    const inner = new InMemoryRegistryClient({
+      "rhdh/chart": [{ name: "1.9-1-CI" }],
+    });
+    const cached = new CachedRegistryClient(inner, { dir });
+
+    await cached.listTags("rhdh/chart");
+    await new CachedRegistryClient(inner, { dir }).listTags("rhdh/chart");
+    assert.deepStrictEqual(inner.calls, ["listTags rhdh/chart"]);
+
+    await new CachedRegistryClient(inner, { dir, ttlMs: 0 }).listTags(
+      "rhdh/chart",
+    );
+    assert.strictEqual(inner.calls.length, 2);
+  });
+});
@@ -0,0 +1,323 @@
+import os from "os";
+import path from "path";
+import { DiskCache, retryingFetch, type RetryOptions } from "./http.js";
+
+/** A tag of a registry repository. */
+export type RegistryTag = {
+  name: string;
+  /** `sha256:…` manifest digest, when the listing reports it (Quay does, the OCI API does not) */
+  digest?: string;
+};
+
+export type ListTagsOptions = {
+  /** Stop after this many tags. Quay lists the most recently pushed first. */
+  max?: number;
+};
+
+/**
+ * Read access to a container registry, used to resolve chart and image
+ * versions. Implementations: {@link QuayRegistryClient} (Quay REST API),
+ * {@link OciRegistryClient} (OCI distribution API), {@link CachedRegistryClient}
+ * (on-disk cache around either) and {@link InMemoryRegistryClient} (offline fake).
+ */
+export interface RegistryClient {
+  /** Registry host, e.g. `quay.io` */
+  readonly host: string;
+  /** Tags of `repository` (e.g. `rhdh/chart`) */
+  listTags(
+    repository: string,
+    options?: ListTagsOptions,
+  ): Promise<RegistryTag[]>;
+  /** Manifest digest of `repository:tag`, or null when the tag does not exist */
+  getDigest(repository: string, tag: string): Promise<string | null>;
+}
+
+export type RegistryClientOptions = RetryOptions;
+
+const MANIFEST_ACCEPT = [
+  "application/vnd.oci.image.index.v1+json",
+  "application/vnd.oci.image.manifest.v1+json",
+  "application/vnd.docker.distribution.manifest.list.v2+json",
+  "application/vnd.docker.distribution.manifest.v2+json",
+].join(", ");
+
+/** Shared transport: fetch with retries and exponential backoff. */
+abstract class HttpRegistryClient implements RegistryClient {
+  /** Fetch `url`; see {@link retryingFetch} */
+  protected readonly _request: ReturnType<typeof retryingFetch>;
+
+  constructor(
+    public readonly host: string,
+    options: RegistryClientOptions = {},
+  ) {
+    this._request = retryingFetch("Registry request", options);
+  }
+
+  abstract listTags(
+    repository: string,
+    options?: ListTagsOptions,
+  ): Promise<RegistryTag[]>;
+
+  abstract getDigest(repository: string, tag: string): Promise<string | null>;
+
+  protected async _json<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await this._request(url, init);
+    if (!response.ok) {
+      throw new Error(
+        `Registry request to ${url} failed: HTTP ${response.status} ${response.statusText}`,
+      );
+    }
+    return (await response.json()) as T;
+  }
+}
+
+/** Quay REST API (`/api/v1/repository/…/tag/`), active tags only. */
+export class QuayRegistryClient extends HttpRegistryClient {
+  constructor(host: string = "quay.io", options?: RegistryClientOptions) {
+    super(host, options);
+  }
+
+  async listTags(
+    repository: string,
+    options: ListTagsOptions = {},
+  ): Promise<RegistryTag[]> {
+    const tags: RegistryTag[] = [];
+    const max = options.max ?? Infinity;
+    for (let page = 1; tags.length < max; page++) {
+      // Quay API responses are snake_case
+      const data = await this._json<{
+        tags: Array<Record<string, unknown>>;
+        ["has_additional"]?: boolean;
+      }>(
+        `https://${this.host}/api/v1/repository/${repository}/tag/?onlyActiveTags=true&limit=100&page=${page}`,
+      );
+      for (const tag of data.tags) {
+        tags.push({
+          name: tag["name"] as string,
+          digest: tag["manifest_digest"] as string | undefined,
+        });
+      }
+      if (!data["has_additional"]) break;
+    }
+    return tags.slice(0, max);
+  }
+
+  async getDigest(repository: string, tag: string): Promise<string | null> {
+    const data = await this._json<{ tags: Array<Record<string, unknown>> }>(
+      `https://${this.host}/api/v1/repository/${repository}/tag/?onlyActiveTags=true&specificTag=${encodeURIComponent(tag)}`,
+    );
+    return (data.tags[0]?.["manifest_digest"] as string | undefined) ?? null;
+  }
+}
+
+/**
+ * OCI distribution API (`/v2/…`), for ghcr.io, registry.redhat.io and
+ * mirrors. Anonymous pull tokens are fetched from the registry's
+ * `WWW-Authenticate` realm; `token` is sent as a Bearer token instead when set.
+ * `plainHttp` talks to the registry over `http://`, e.g. a local test registry.
+ */
+export class OciRegistryClient extends HttpRegistryClient {
+  private readonly _tokens = new Map<string, string>();
+  private readonly _baseUrl: string;
+
+  constructor(
+    host: string,
+    options: RegistryClientOptions & {
+      token?: string;
+      plainHttp?: boolean;
+    } = {},
+  ) {
+    super(host, options);
+    if (options.token) this._tokens.set("*", options.token);
+    this._baseUrl = `${options.plainHttp ? "http" : "https"}://${host}`;
+  }
+
+  async listTags(
+    repository: string,
+    options: ListTagsOptions = {},
+  ): Promise<RegistryTag[]> {
+    const names: string[] = [];
+    const max = options.max ?? Infinity;
+    let url: string | null =
+      `${this._baseUrl}/v2/${repository}/tags/list?n=1000`;
+    while (url && names.length < max) {
+      const response = await this._authorizedRequest(repository, url);
+      if (!response.ok) {
+        throw new Error(
+          `Registry request to ${url} failed: HTTP ${response.status} ${response.statusText}`,
+        );
+      }
+      const data = (await response.json()) as { tags?: string[] | null };
+      names.push(...(data.tags ?? []));
+      url = this._nextPage(response.headers.get("link"));
+    }
+    return names.slice(0, max).map((name) => ({ name }));
+  }
+
+  async getDigest(repository: string, tag: string): Promise<string | null> {
+    const url = `${this._baseUrl}/v2/${repository}/manifests/${tag}`;
+    const response = await this._authorizedRequest(repository, url, "HEAD");
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(
+        `Registry request to ${url} failed: HTTP ${response.status} ${response.statusText}`,
+      );
+    }
+    return response.headers.get("docker-content-digest");
+  }
+
+  /** Absolute URL of the `rel="next"` page in a `Link` header. */
+  private _nextPage(link: string | null): string | null {
+    const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+    if (!match) return null;
+    return new URL(match[1], this._baseUrl).toString();
+  }
+
+  private async _authorizedRequest(
+    repository: string,
+    url: string,
+    method: string = "GET",
+  ): Promise<Response> {
+    const send = (token?: string) =>
+      this._request(url, {
+        method,
+        headers: {
+          Accept: MANIFEST_ACCEPT,
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      });
+
+    const cached = this._tokens.get("*") ?? this._tokens.get(repository);
+    const response = await send(cached);
+    const challenge = response.headers.get("www-authenticate");
+    if (response.status !== 401 || cached || !challenge) return response;
+
+    const token = await this._fetchToken(challenge, repository);
+    this._tokens.set(repository, token);
+    return await send(token);
+  }
+
+  /** Anonymous pull token from a `Bearer realm="…",service="…"` challenge. */
+  private async _fetchToken(
+    challenge: string,
+    repository: string,
+  ): Promise<string> {
+    const params = Object.fromEntries(
+      [...challenge.matchAll(/(\w+)="([^"]*)"/g)].map((m) => [m[1], m[2]]),
+    );
+    if (!params.realm) {
+      throw new Error(
+        `Unsupported registry auth challenge from ${this.host}: ${challenge}`,
+      );
+    }
+    const tokenUrl = new URL(params.realm);
+    if (params.service) tokenUrl.searchParams.set("service", params.service);
+    tokenUrl.searchParams.set(
+      "scope",
+      params.scope ?? `repository:${repository}:pull`,
+    );
+    const data = await this._json<Record<string, string>>(tokenUrl.toString());
+    const token = data["token"] ?? data["access_token"];
+    if (!token) {
+      throw new Error(`No token in ${this.host} auth response`);
+    }
+    return token;
+  }
+}
+
+export type RegistryCacheOptions = {
+  /** Default `$TMPDIR/rhdh-e2e-registry-cache` */
+  dir?: string;
+  /** How long cached responses are used. Default 10 minutes. */
+  ttlMs?: number;
+};
+
+/**
+ * On-disk cache around another client, one file per host, repository and
+ * query, so parallel workers and repeated runs share lookups.
+ */
+export class CachedRegistryClient implements RegistryClient {
+  private readonly _cache: DiskCache;
+
+  constructor(
+    private readonly _inner: RegistryClient,
+    options: RegistryCacheOptions = {},
+  ) {
+    this._cache = new DiskCache(
+      options.dir ?? path.join(os.tmpdir(), "rhdh-e2e-registry-cache"),
+      options.ttlMs ?? 10 * 60_000,
+    );
+  }
+
+  get host(): string {
+    return this._inner.host;
+  }
+
+  async listTags(
+    repository: string,
+    options: ListTagsOptions = {},
+  ): Promise<RegistryTag[]> {
+    return await this._cached(
+      `${repository}:tags:${options.max ?? "all"}`,
+      () => this._inner.listTags(repository, options),
+    );
+  }
+
+  async getDigest(repository: string, tag: string): Promise<string | null> {
+    return await this._cached(`${repository}:digest:${tag}`, () =>
+      this._inner.getDigest(repository, tag),
+    );
+  }
+
+  /** Values are stored as JSON under the host and `key`. */
+  private async _cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const cacheKey = `${this.host}/${key}`;
+    const cached = this._cache.get(cacheKey);
+    if (cached !== null) return JSON.parse(cached) as T;
+    const value = await load();
+    this._cache.set(cacheKey, JSON.stringify(value));
+    return value;
+  }
+}
+
+/** Offline fake: serves fixed tags per repository. */
+export class InMemoryRegistryClient implements RegistryClient {
+  /** Every call made, as `listTags repo` or `getDigest repo:tag` */
+  public readonly calls: string[] = [];
+
+  constructor(
+    private readonly _repositories: Record<string, RegistryTag[]>,
+    public readonly host: string = "quay.io",
+  ) {}
+
+  async listTags(
+    repository: string,
+    options: ListTagsOptions = {},
+  ): Promise<RegistryTag[]> {
+    this.calls.push(`listTags ${repository}`);
+    return (this._repositories[repository] ?? []).slice(0, options.max);
+  }
+
+  async getDigest(repository: string, tag: string): Promise<string | null> {
+    this.calls.push(`getDigest ${repository}:${tag}`);
+    return (
+      this._repositories[repository]?.find((t) => t.name === tag)?.digest ??
+      null
+    );
+  }
+}
+
+/**
+ * Cached client for `host`: the Quay API for quay.io, the OCI distribution
+ * API for any other registry.
+ */
+export function createRegistryClient(
+  host: string = "quay.io",
+  options?: RegistryClientOptions & RegistryCacheOptions,
+): RegistryClient {
+  const inner =
+    host === "quay.io"
+      ? new QuayRegistryClient(host, options)
+      : new OciRegistryClient(host, options);
+  return new CachedRegistryClient(inner, options);
+}
@@ -0,0 +1,197 @@
+/* eslint-disable @typescript-eslint/naming-convention -- mirror maps are keyed by registry references */
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  RegistryMirror,
+  formatMirrorReport,
+  getRegistryMirror,
+  parseMirrorRules,
+  splitImageRef,
+} from "./registry-mirror.js";
+
+describe("parseMirrorRules", () => {
+  it("accepts a source to mirror map", () => {
+    assert.deepStrictEqual(
+      parseMirrorRules({ "quay.io/rhdh": "mirror/rhdh" }),
+      [{ source: "quay.io/rhdh", mirror: "mirror/rhdh" }],
+    );
+  });
+
+  it("takes the first mirror of an ImageDigestMirrorSet entry", () => {
+    const idms = {
+      kind: "ImageDigestMirrorSet",
+      spec: {
+        imageDigestMirrors: [
+          { source: "registry.redhat.io/rhdh", mirrors: ["a/rhdh", "b/rhdh"] },
+        ],
+      },
+    };
+    assert.deepStrictEqual(parseMirrorRules(idms), [
+      { source: "registry.redhat.io/rhdh", mirror: "a/rhdh" },
+    ]);
+  });
+
+  it("reads ImageContentSourcePolicy repositoryDigestMirrors", () => {
+    const icsp = {
+      spec: {
+        repositoryDigestMirrors: [{ source: "ghcr.io", mirrors: ["m/ghcr"] }],
+      },
+    };
+    assert.deepStrictEqual(parseMirrorRules(icsp), [
+      { source: "ghcr.io", mirror: "m/ghcr" },
+    ]);
+  });
+
+  it("rejects a rule without a mirror", () => {
+    assert.throws(
+      () => parseMirrorRules([{ source: "ghcr.io" }]),
+      /rule 0 needs a source and a mirror/,
+    );
+  });
+});
+
+describe("RegistryMirror.rewrite", () => {
+  const mirror = () =>
+    new RegistryMirror([
+      { source: "ghcr.io", mirror: "mirror.lab:5000/ghcr" },
+      {
+        source: "ghcr.io/redhat-developer/rhdh-plugin-export-overlays",
+        mirror: "mirror.lab:5000/overlays",
+      },
+      { source: "quay.io/rhdh", mirror: "https://charts.lab/rhdh" },
+    ]);
+
+  it("uses the longest matching source and keeps the scheme", () => {
+    assert.strictEqual(
+      mirror().rewrite(
+        "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/foo:1.0!foo",
+        "test",
+      ),
+      "oci://mirror.lab:5000/overlays/foo:1.0!foo",
+    );
+    assert.strictEqual(
+      mirror().rewrite("ghcr.io/other/image:1", "test"),
+      "mirror.lab:5000/ghcr/other/image:1",
+    );
+  });
+
+  it("lets a mirror carry its own scheme", () => {
+    assert.strictEqual(
+      mirror().rewrite("oci://quay.io/rhdh/chart", "test"),
+      "https://charts.lab/rhdh/chart",
+    );
+  });
+
+  it("only matches whole path segments", () => {
+    const ref = "quay.io/rhdh-community/rhdh:next";
+    assert.strictEqual(mirror().rewrite(ref, "test"), ref);
+  });
+
+  it("records each distinct rewrite once", () => {
+    const m = mirror();
+    m.rewrite("ghcr.io/a:1", "ctx");
+    m.rewrite("ghcr.io/a:1", "ctx");
+    m.rewrite("docker.io/b:1", "ctx");
+    assert.deepStrictEqual(m.rewrites, [
+      { context: "ctx", from: "ghcr.io/a:1", to: "mirror.lab:5000/ghcr/a:1" },
+    ]);
+    assert.strictEqual(
+      formatMirrorReport(m.rewrites),
+      "ctx: ghcr.io/a:1 → mirror.lab:5000/ghcr/a:1",
+    );
+  });
+});
+
+describe("getRegistryMirror", () => {
+  const original = process.env.REGISTRY_MIRRORS;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.REGISTRY_MIRRORS;
+    else process.env.REGISTRY_MIRRORS = original;
+  });
+
+  it("is disabled without REGISTRY_MIRRORS", () => {
+    delete process.env.REGISTRY_MIRRORS;
+    assert.strictEqual(getRegistryMirror().enabled, false);
+  });
+
+  it("reads inline JSON and reloads when the value changes", () => {
+    process.env.REGISTRY_MIRRORS = '{"ghcr.io": "m1"}';
+    const first = getRegistryMirror();
+    assert.strictEqual(first, getRegistryMirror());
+    process.env.REGISTRY_MIRRORS = '{"ghcr.io": "m2"}';
+    assert.strictEqual(getRegistryMirror().rewrite("ghcr.io/x", "t"), "m2/x");
+  });
+
+  it("reads a YAML file", () => {
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "mirror-test-")),
+      "mirrors.yaml",
+    );
+    fs.writeFileSync(file, "- source: quay.io\n  mirror: m/quay\n");
+    process.env.REGISTRY_MIRRORS = file;
+    assert.strictEqual(
+      getRegistryMirror().rewrite("quay.io/x", "t"),
+      "m/quay/x",
+    );
+  });
+});
+
+describe("splitImageRef", () => {
+  it("keeps a registry port out of the tag", () => {
+    assert.deepStrictEqual(splitImageRef("mirror.lab:5000/rhdh/index:1.9"), {
+      registry: "mirror.lab:5000",
+      repository: "rhdh/index",
+      tag: "1.9",
+    });
+  });
+
+  it("keeps a digest apart from the tag", () => {
+    assert.deepStrictEqual(splitImageRef("quay.io/rhdh/hub@sha256:abc"), {
+      registry: "quay.io",
+      repository: "rhdh/hub",
+      tag: "latest",
+      digest: "sha256:abc",
+    });
+  });
+
+  it("puts refs without a registry on docker.io like Docker", () => {
+    assert.deepStrictEqual(splitImageRef("rhdh-hub:dev"), {
+      registry: "docker.io",
+      repository: "library/rhdh-hub",
+      tag: "dev",
+    });
+    assert.deepStrictEqual(splitImageRef("org/img:tag"), {
+      registry: "docker.io",
+      repository: "org/img",
+      tag: "tag",
+    });
+  });
+
+  it("treats localhost as a registry", () => {
+    assert.deepStrictEqual(
+      splitImageRef(`localhost:5000/rhdh-hub@sha256:${"a".repeat(64)}`),
+      {
+        registry: "localhost:5000",
+        repository: "rhdh-hub",
+        tag: "latest",
+        digest: `sha256:${"a".repeat(64)}`,
+      },
+    );
+    assert.strictEqual(
+      splitImageRef("localhost/rhdh-hub").registry,
+      "localhost",
+    );
+  });
+
+  it("defaults the tag to latest", () => {
+    assert.deepStrictEqual(splitImageRef("mirror.lab:5000/rhdh/index"), {
+      registry: "mirror.lab:5000",
+      repository: "rhdh/index",
+      tag: "latest",
+    });
+  });
+});
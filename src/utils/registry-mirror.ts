@@ -0,0 +1,178 @@
+import fs from "fs";
+import yaml from "js-yaml";
+
+/** References starting with `source` are rewritten to start with `mirror` instead. */
+export type MirrorRule = {
+  /** Registry or repository prefix, e.g. `ghcr.io/redhat-developer` */
+  source: string;
+  /** Replacement prefix, e.g. `mirror.lab:5000/ghcr/redhat-developer`. May carry its own scheme. */
+  mirror: string;
+};
+
+/** One reference rewritten by a mirror rule. */
+export type MirrorRewrite = {
+  /** Where the reference came from, e.g. `dynamic-plugins` or `CATALOG_INDEX_IMAGE` */
+  context: string;
+  from: string;
+  to: string;
+};
+
+type MirrorSetEntry = { source?: string; mirror?: string; mirrors?: string[] };
+
+const SCHEME = /^[a-z][a-z0-9+.-]*:\/\//;
+
+/**
+ * Parse mirror rules from one of:
+ * - a `{ "<source>": "<mirror>" }` map
+ * - a list of `{ source, mirror }` or `{ source, mirrors: [...] }` entries
+ *   (the first mirror is used)
+ * - an ImageContentSourcePolicy, ImageDigestMirrorSet or ImageTagMirrorSet
+ */
+export function parseMirrorRules(config: unknown): MirrorRule[] {
+  if (!config) return [];
+  const spec = (config as { spec?: Record<string, unknown> }).spec;
+  const entries =
+    spec?.repositoryDigestMirrors ??
+    spec?.imageDigestMirrors ??
+    spec?.imageTagMirrors ??
+    config;
+
+  if (Array.isArray(entries)) {
+    return (entries as MirrorSetEntry[]).map((entry, index) => {
+      const mirror = entry.mirror ?? entry.mirrors?.[0];
+      if (!entry.source || !mirror) {
+        throw new Error(
+          `Registry mirror rule ${index} needs a source and a mirror: ${JSON.stringify(entry)}`,
+        );
+      }
+      return { source: entry.source, mirror };
+    });
+  }
+  if (typeof entries === "object") {
+    return Object.entries(entries as Record<string, string>).map(
+      ([source, mirror]) => ({ source, mirror }),
+    );
+  }
+  throw new Error(`Unsupported registry mirror configuration: ${config}`);
+}
+
+/**
+ * Rewrites image, OCI artifact and chart references by longest matching
+ * prefix, and records every rewrite for the mirror report.
+ */
+export class RegistryMirror {
+  private readonly _rules: MirrorRule[];
+  private readonly _rewrites = new Map<string, MirrorRewrite>();
+
+  constructor(rules: MirrorRule[]) {
+    // Longest source first so a repository rule wins over its registry's rule
+    this._rules = rules
+      .map((rule) => ({
+        source: rule.source.replace(SCHEME, "").replace(/\/+$/, ""),
+        mirror: rule.mirror.replace(/\/+$/, ""),
+      }))
+      .sort((a, b) => b.source.length - a.source.length);
+  }
+
+  /**
+   * Mirror from `REGISTRY_MIRRORS`: inline JSON, or the path of a JSON/YAML
+   * file, in any format {@link parseMirrorRules} accepts.
+   */
+  static fromEnv(value = process.env.REGISTRY_MIRRORS): RegistryMirror {
+    const trimmed = value?.trim();
+    if (!trimmed) return new RegistryMirror([]);
+    const config = /^[[{]/.test(trimmed)
+      ? JSON.parse(trimmed)
+      : yaml.load(fs.readFileSync(trimmed, "utf-8"));
+    return new RegistryMirror(parseMirrorRules(config));
+  }
+
+  get enabled(): boolean {
+    return this._rules.length > 0;
+  }
+
+  /** Every distinct rewrite made so far, in order. */
+  get rewrites(): MirrorRewrite[] {
+    return [...this._rewrites.values()];
+  }
+
+  /**
+   * Rewrite `ref` (optionally `oci://`, `https://`… prefixed) if a rule
+   * matches. A source only matches whole path segments: `quay.io/rhdh`
+   * matches `quay.io/rhdh/chart` but not `quay.io/rhdh-community/x`.
+   */
+  rewrite(ref: string, context: string): string {
+    const scheme = ref.match(SCHEME)?.[0] ?? "";
+    const bare = ref.slice(scheme.length);
+    const rule = this._rules.find(
+      ({ source }) =>
+        bare.startsWith(source) && /^([/:@]|$)/.test(bare.slice(source.length)),
+    );
+    if (!rule) return ref;
+
+    const prefix = SCHEME.test(rule.mirror)
+      ? rule.mirror
+      : scheme + rule.mirror;
+    const rewritten = prefix + bare.slice(rule.source.length);
+    this._rewrites.set(`${context}\0${ref}`, {
+      context,
+      from: ref,
+      to: rewritten,
+    });
+    return rewritten;
+  }
+}
+
+let active: { config: string | undefined; mirror: RegistryMirror } | undefined;
+
+/**
+ * Process-wide mirror for the current `REGISTRY_MIRRORS`, shared so the
+ * report covers every component that rewrote references.
+ */
+export function getRegistryMirror(): RegistryMirror {
+  const config = process.env.REGISTRY_MIRRORS;
+  if (!active || active.config !== config) {
+    active = { config, mirror: RegistryMirror.fromEnv(config) };
+  }
+  return active.mirror;
+}
+
+/**
+ * Split `registry/repo/path:tag` (or `…@sha256:…`) into the
+ * registry/repository/tag/digest parts Helm values use. Like Docker, the
+ * first path segment is the registry only if it contains `.` or `:` or is
+ * `localhost`; otherwise the image is on `docker.io`, under `library/` for
+ * single-segment names.
+ */
+export function splitImageRef(ref: string): {
+  registry: string;
+  repository: string;
+  tag: string;
+  digest?: string;
+} {
+  const [nameAndTag, digest] = ref.split("@");
+  const lastColon = nameAndTag.lastIndexOf(":");
+  const hasTag = lastColon > nameAndTag.lastIndexOf("/");
+  const name = hasTag ? nameAndTag.slice(0, lastColon) : nameAndTag;
+  const firstSlash = name.indexOf("/");
+  const first = name.slice(0, Math.max(firstSlash, 0));
+  const hasRegistry =
+    first.includes(".") || first.includes(":") || first === "localhost";
+  let repository = name;
+  if (hasRegistry) repository = name.slice(firstSlash + 1);
+  else if (firstSlash < 0) repository = `library/${name}`;
+  return {
+    registry: hasRegistry ? first : "docker.io",
+    repository,
+    tag: hasTag ? nameAndTag.slice(lastColon + 1) : "latest",
+    ...(digest ? { digest } : {}),
+  };
+}
+
+/** `context: from → to` lines, one per rewrite. */
+export function formatMirrorReport(rewrites: MirrorRewrite[]): string {
+  if (rewrites.length === 0) return "No references rewritten.";
+  return rewrites
+    .map(({ context, from, to }) => `${context}: ${from} → ${to}`)
+    .join("\n");
+}
@@ -0,0 +1,214 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { $ } from "zx";
+import { MetadataHttpClient } from "./metadata-http.js";
+import {
+  GitSourceProvider,
+  createSourceProvider,
+  parseRepositoryUrl,
+} from "./source-provider.js";
+import { fakeFetch } from "./tests/helpers.js";
+
+/** HTTP client whose fetch is a {@link fakeFetch} answering from `handler`. */
+function fakeClient(handler: (url: string) => Response) {
+  const { requests, fetchFn } = fakeFetch(handler);
+  const client = new MetadataHttpClient({
+    cacheDir: false,
+    token: "",
+    fetch: fetchFn,
+  });
+  return { requests, client };
+}
+
+describe("parseRepositoryUrl", () => {
+  it("accepts https, scheme-less and scp-style URLs", () => {
+    assert.deepStrictEqual(
+      parseRepositoryUrl("https://github.com/backstage/community-plugins.git"),
+      {
+        protocol: "https:",
+        host: "github.com",
+        path: "backstage/community-plugins",
+      },
+    );
+    assert.deepStrictEqual(
+      parseRepositoryUrl("gitlab.example.com/group/sub/project/"),
+      {
+        protocol: "https:",
+        host: "gitlab.example.com",
+        path: "group/sub/project",
+      },
+    );
+    assert.deepStrictEqual(
+      parseRepositoryUrl("git@gitea.internal:team/plugins.git"),
+      { protocol: "https:", host: "gitea.internal", path: "team/plugins" },
+    );
+  });
+
+  it("rejects URLs without an owner and repository", () => {
+    assert.strictEqual(
+      parseRepositoryUrl("https://github.com/backstage"),
+      null,
+    );
+  });
+});
+
+describe("createSourceProvider", () => {
+  it("picks the provider from the host unless one is given", () => {
+    const kinds = [
+      { repo: "https://github.com/o/r", ref: "main" },
+      { repo: "https://gitlab.com/g/p", ref: "main" },
+      { repo: "https://gitlab.corp.example/g/p", ref: "main" },
+      { repo: "https://gitea.internal/o/r", ref: "main" },
+      { repo: "https://code.corp/g/p", ref: "main", provider: "gitlab" },
+    ].map(
+      (source) =>
+        createSourceProvider(
+          source as Parameters<typeof createSourceProvider>[0],
+        ).kind,
+    );
+    assert.deepStrictEqual(kinds, [
+      "github",
+      "gitlab",
+      "gitlab",
+      "git",
+      "gitlab",
+    ]);
+  });
+
+  it("clones scheme-less repos over https and keeps other URLs as given", () => {
+    const labels = [
+      "gitea.example.com/org/repo",
+      "git@gitea.example.com:org/repo.git",
+      "ssh://git@gitea.example.com/org/repo.git",
+    ].map((repo) => createSourceProvider({ repo, ref: "main" }).label);
+    assert.deepStrictEqual(labels, [
+      "git https://gitea.example.com/org/repo@main",
+      "git git@gitea.example.com:org/repo.git@main",
+      "git ssh://git@gitea.example.com/org/repo.git@main",
+    ]);
+  });
+
+  it("rejects unknown providers and GitHub on other hosts", () => {
+    assert.throws(
+      () =>
+        createSourceProvider({
+          repo: "https://github.com/o/r",
+          ref: "main",
+          provider: "svn" as "git",
+        }),
+      /Unknown source provider 'svn'/,
+    );
+    assert.throws(
+      () =>
+        createSourceProvider({
+          repo: "https://github.corp/o/r",
+          ref: "main",
+          provider: "github",
+        }),
+      /GitHub source provider supports github\.com only, got github\.corp/,
+    );
+  });
+});
+
+describe("GitLabSourceProvider", () => {
+  it("reads raw files through the files API with GITLAB_TOKEN", async () => {
+    const saved = process.env.GITLAB_TOKEN;
+    process.env.GITLAB_TOKEN = "glpat";
+    try {
+      const { requests, client } = fakeClient(() => new Response("{}"));
+      const provider = createSourceProvider(
+        { repo: "https://gitlab.com/group/sub/plugins.git", ref: "v1.2" },
+        client,
+      );
+
+      const file = await provider.readFile("plugins/x/package.json");
+      assert.strictEqual(file.text, "{}");
+      assert.strictEqual(
+        requests[0].url,
+        "https://gitlab.com/api/v4/projects/group%2Fsub%2Fplugins/repository/files/plugins%2Fx%2Fpackage.json/raw?ref=v1.2",
+      );
+      assert.strictEqual(requests[0].headers["PRIVATE-TOKEN"], "glpat");
+    } finally {
+      if (saved === undefined) delete process.env.GITLAB_TOKEN;
+      else process.env.GITLAB_TOKEN = saved;
+    }
+  });
+
+  it("names the provider and path when a file is missing", async () => {
+    const { client } = fakeClient(
+      () => new Response("", { status: 404, statusText: "Not Found" }),
+    );
+    const provider = createSourceProvider(
+      { repo: "https://gitlab.com/group/plugins", ref: "main" },
+      client,
+    );
+    await assert.rejects(
+      provider.readFile("plugins/x/package.json"),
+      /GitLab gitlab\.com\/group\/plugins@main: cannot read plugins\/x\/package\.json: 404 Not Found/,
+    );
+  });
+});
+
+describe("GitSourceProvider", () => {
+  let repoDir: string;
+  let commit: string;
+
+  before(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), "source-provider-"));
+    await fs.outputFile(
+      path.join(repoDir, "plugins/x/package.json"),
+      JSON.stringify({ name: "@scope/plugin-x", version: "1.0.0" }),
+    );
+    const git = $({ cwd: repoDir, stdio: "pipe" });
+    await git`git init -q -b main`;
+    await git`git add -A`;
+    await git`git -c user.name=test -c user.email=test@example.com commit -q -m init`;
+    commit = (await git`git rev-parse HEAD`).stdout.trim();
+    await fs.outputFile(
+      path.join(repoDir, "plugins/x/package.json"),
+      JSON.stringify({ name: "@scope/plugin-x", version: "2.0.0" }),
+    );
+    await git`git -c user.name=test -c user.email=test@example.com commit -q -am bump`;
+  });
+
+  after(async () => {
+    await fs.remove(repoDir);
+  });
+
+  it("reads files at a branch and at a commit from a local clone", async () => {
+    for (const [ref, version] of [
+      ["main", "2.0.0"],
+      [commit, "1.0.0"],
+    ]) {
+      const provider = new GitSourceProvider(`file://${repoDir}`, ref);
+      try {
+        const { text } = await provider.readFile("plugins/x/package.json");
+        assert.strictEqual(JSON.parse(text).version, version);
+      } finally {
+        await provider.close();
+      }
+    }
+  });
+
+  it("names the provider and path when a file or ref is missing", async () => {
+    const provider = new GitSourceProvider(`file://${repoDir}`, "main");
+    try {
+      await assert.rejects(
+        provider.readFile("plugins/y/package.json"),
+        /git file:\/\/.+@main: cannot read plugins\/y\/package\.json/,
+      );
+    } finally {
+      await provider.close();
+    }
+
+    const missing = new GitSourceProvider(`file://${repoDir}`, "no-such-ref");
+    await assert.rejects(
+      missing.readFile("plugins/x/package.json"),
+      /@no-such-ref: ref 'no-such-ref' not found/,
+    );
+    await missing.close();
+  });
+});
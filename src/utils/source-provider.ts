@@ -0,0 +1,317 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { $ } from "./bash.js";
+import {
+  getMetadataHttpClient,
+  type MetadataHttpClient,
+  type MetadataResponse,
+} from "./metadata-http.js";
+
+export type SourceProviderKind = "github" | "gitlab" | "git";
+
+/** Where a workspace's plugins come from, as declared by `source.json`. */
+export type SourceRepository = {
+  /** Repository URL: `https://host/path`, `host/path` or `git@host:path` */
+  repo: string;
+  /** Branch, tag or commit (`repo-ref`) */
+  ref: string;
+  /** Overrides detection from the host (`repo-provider`) */
+  provider?: SourceProviderKind;
+};
+
+/** A file read from a source repository. */
+export type SourceFile = {
+  text: string;
+  /** URL or `git` object the text came from, for error messages */
+  location: string;
+};
+
+/**
+ * Read access to files of a source repository at one ref. Implementations:
+ * {@link GitHubSourceProvider} (raw.githubusercontent.com),
+ * {@link GitLabSourceProvider} (GitLab files API) and
+ * {@link GitSourceProvider} (local clone, for any other git host).
+ */
+export interface SourceProvider {
+  readonly kind: SourceProviderKind;
+  /** e.g. `GitHub redhat-developer/rhdh@main` */
+  readonly label: string;
+  /** `filePath` at the ref; throws naming the provider and path when unavailable */
+  readFile(filePath: string): Promise<SourceFile>;
+  /** Release local resources (the clone, for git) */
+  close(): Promise<void>;
+}
+
+const SOURCE_PROVIDER_KINDS: SourceProviderKind[] = ["github", "gitlab", "git"];
+
+/** `user@host:path`, which git understands as SSH */
+const SCP_LIKE_URL = /^[\w.-]+@([^:/]+):(.+)$/;
+
+/** Host and repository path of `repo`, without a trailing `.git`. */
+export function parseRepositoryUrl(
+  repo: string,
+): { protocol: string; host: string; path: string } | null {
+  const scp = repo.match(SCP_LIKE_URL);
+  let protocol = "https:";
+  let host: string;
+  let repoPath: string;
+  if (scp) {
+    [, host, repoPath] = scp;
+  } else {
+    let url: URL;
+    try {
+      url = new URL(repo.includes("://") ? repo : `https://${repo}`);
+    } catch {
+      return null;
+    }
+    protocol = url.protocol === "http:" ? "http:" : "https:";
+    host = url.host;
+    repoPath = url.pathname;
+  }
+  repoPath = repoPath.replace(/^\/+|\/+$/g, "").replace(/\.git$/, "");
+  if (!host || !repoPath.includes("/")) return null;
+  return { protocol, host, path: repoPath };
+}
+
+/**
+ * Provider for `source`: `provider` when given, otherwise GitHub for
+ * github.com, GitLab for hosts named `gitlab…`, and a local clone for
+ * anything else.
+ */
+export function createSourceProvider(
+  source: SourceRepository,
+  client: MetadataHttpClient = getMetadataHttpClient(),
+): SourceProvider {
+  const { repo, ref, provider } = source;
+  if (provider && !SOURCE_PROVIDER_KINDS.includes(provider)) {
+    throw new Error(
+      `[PluginMetadata] Unknown source provider '${provider}' (expected one of ${SOURCE_PROVIDER_KINDS.join(", ")})`,
+    );
+  }
+
+  const parsed = parseRepositoryUrl(repo);
+  const kind =
+    provider ??
+    (parsed?.host === "github.com"
+      ? "github"
+      : parsed?.host.split(".")[0].startsWith("gitlab")
+        ? "gitlab"
+        : "git");
+
+  if (kind === "git") {
+    // git reads a scheme-less `host/path` as a local directory
+    const remote =
+      parsed && !repo.includes("://") && !SCP_LIKE_URL.test(repo)
+        ? `${parsed.protocol}//${parsed.host}/${parsed.path}`
+        : repo;
+    return new GitSourceProvider(remote, ref);
+  }
+  if (!parsed) {
+    throw new Error(
+      `[PluginMetadata] Failed to parse ${kind === "github" ? "GitHub" : "GitLab"} repo from source.json: ${repo}`,
+    );
+  }
+  if (kind === "github") {
+    if (parsed.host !== "github.com") {
+      throw new Error(
+        `[PluginMetadata] GitHub source provider supports github.com only, got ${parsed.host} (use "repo-provider": "git")`,
+      );
+    }
+    return new GitHubSourceProvider(parsed.path, ref, client);
+  }
+  return new GitLabSourceProvider(
+    `${parsed.protocol}//${parsed.host}`,
+    parsed.path,
+    ref,
+    client,
+  );
+}
+
+/** Shared HTTP reading: cached GET, errors naming provider and path. */
+abstract class HttpSourceProvider implements SourceProvider {
+  abstract readonly kind: SourceProviderKind;
+  abstract readonly label: string;
+
+  constructor(protected readonly _client: MetadataHttpClient) {}
+
+  async readFile(filePath: string): Promise<SourceFile> {
+    const response = await this._fetch(filePath);
+    if (!response.ok || response.text === null) {
+      throw new Error(
+        `[PluginMetadata] ${this.label}: cannot read ${filePath}: ${response.status} ${response.statusText}\n` +
+          `  URL: ${response.url}`,
+      );
+    }
+    return { text: response.text, location: response.url };
+  }
+
+  async close(): Promise<void> {}
+
+  protected abstract _fetch(filePath: string): Promise<MetadataResponse>;
+}
+
+/** Files from raw.githubusercontent.com; sends `GITHUB_TOKEN` when set. */
+export class GitHubSourceProvider extends HttpSourceProvider {
+  readonly kind = "github";
+
+  constructor(
+    private readonly _ownerRepo: string,
+    private readonly _ref: string,
+    client: MetadataHttpClient = getMetadataHttpClient(),
+  ) {
+    super(client);
+  }
+
+  get label(): string {
+    return `GitHub ${this._ownerRepo}@${this._ref}`;
+  }
+
+  protected _fetch(filePath: string): Promise<MetadataResponse> {
+    return this._client.getGitHubFile(this._ownerRepo, this._ref, filePath);
+  }
+}
+
+/**
+ * Files from the GitLab repository files API (`/api/v4/projects/…/raw`),
+ * on gitlab.com or a self-hosted instance; sends `GITLAB_TOKEN` when set.
+ */
+export class GitLabSourceProvider extends HttpSourceProvider {
+  readonly kind = "gitlab";
+
+  constructor(
+    private readonly _baseUrl: string,
+    private readonly _project: string,
+    private readonly _ref: string,
+    client: MetadataHttpClient = getMetadataHttpClient(),
+    private readonly _token: string | undefined = process.env.GITLAB_TOKEN ||
+      undefined,
+  ) {
+    super(client);
+  }
+
+  get label(): string {
+    return `GitLab ${new URL(this._baseUrl).host}/${this._project}@${this._ref}`;
+  }
+
+  protected _fetch(filePath: string): Promise<MetadataResponse> {
+    const url =
+      `${this._baseUrl}/api/v4/projects/${encodeURIComponent(this._project)}` +
+      `/repository/files/${encodeURIComponent(filePath)}/raw?ref=${encodeURIComponent(this._ref)}`;
+    return this._client.getCached(
+      `gitlab/${this._baseUrl}/${this._project}/${this._ref}/${filePath}`,
+      url,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      this._token ? { "PRIVATE-TOKEN": this._token } : {},
+    );
+  }
+}
+
+/**
+ * Files from a local clone, for hosts without a supported API (Gitea,
+ * Bitbucket, plain git servers). Fetches only `ref` when the server allows
+ * it, falling back to a full clone. Uses the caller's git credentials.
+ */
+export class GitSourceProvider implements SourceProvider {
+  readonly kind = "git";
+  private _checkout: Promise<{ dir: string; rev: string }> | undefined;
+
+  constructor(
+    private readonly _repo: string,
+    private readonly _ref: string,
+  ) {}
+
+  get label(): string {
+    return `git ${this._repo}@${this._ref}`;
+  }
+
+  async readFile(filePath: string): Promise<SourceFile> {
+    const { dir, rev } = await this._clone();
+    const location = `${rev}:${filePath}`;
+    const result = await git(dir, "show", location);
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `[PluginMetadata] ${this.label}: cannot read ${filePath}: ${result.stderr.trim() || `git show exited with ${result.exitCode}`}`,
+      );
+    }
+    return { text: result.stdout, location: `${this._repo} ${location}` };
+  }
+
+  async close(): Promise<void> {
+    const checkout = this._checkout;
+    this._checkout = undefined;
+    if (!checkout) return;
+    const { dir } = await checkout.catch(() => ({ dir: null }));
+    if (dir) await fs.remove(dir);
+  }
+
+  /** One clone per provider, shared by concurrent reads. */
+  private _clone(): Promise<{ dir: string; rev: string }> {
+    this._checkout ??= (async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rhdh-e2e-source-"));
+      try {
+        await git(dir, "init", "-q", "--bare");
+        const shallow = await git(
+          dir,
+          "fetch",
+          "-q",
+          "--depth",
+          "1",
+          this._repo,
+          this._ref,
+        );
+        if (shallow.exitCode === 0) {
+          const head = await git(dir, "rev-parse", "FETCH_HEAD");
+          return { dir, rev: head.stdout.trim() };
+        }
+
+        // Servers that refuse to serve an arbitrary commit: fetch everything
+        const full = await git(
+          dir,
+          "fetch",
+          "-q",
+          this._repo,
+          "+refs/heads/*:refs/heads/*",
+          "+refs/tags/*:refs/tags/*",
+        );
+        if (full.exitCode !== 0) {
+          throw new Error(
+            `[PluginMetadata] ${this.label}: git fetch failed: ${full.stderr.trim()}`,
+          );
+        }
+        const rev = await git(
+          dir,
+          "rev-parse",
+          "--verify",
+          "-q",
+          `${this._ref}^{commit}`,
+        );
+        if (rev.exitCode !== 0) {
+          throw new Error(
+            `[PluginMetadata] ${this.label}: ref '${this._ref}' not found`,
+          );
+        }
+        return { dir, rev: rev.stdout.trim() };
+      } catch (error) {
+        await fs.remove(dir);
+        throw error;
+      }
+    })();
+    return this._checkout;
+  }
+}
+
+async function git(
+  dir: string,
+  ...args: string[]
+): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+  const result = await $({
+    stdio: ["ignore", "pipe", "pipe"],
+    nothrow: true,
+  })`git -C ${dir} ${args}`;
+  return {
+    exitCode: result.exitCode ?? 1,
+    stdout: result.stdout,
+    stderr: result.stderr,
+  };
+}
@@ -1,5 +1,5 @@
 /**
- * Shared test helpers for plugin-metadata tests.
+ * Shared test helpers for plugin-metadata and HTTP client tests.
  */
 import fs from "fs-extra";
 import path from "path";
@@ -22,6 +22,21 @@ export function withCleanEnv() {
   };
 }
 
+/** Fetch stub that records each request's URL and headers and answers from `handler`. */
+export function fakeFetch(
+  handler: (url: string, init?: RequestInit) => Response | Promise<Response>,
+) {
+  const requests: Array<{ url: string; headers: Record<string, string> }> = [];
+  const fetchFn = (async (input: string | URL, init?: RequestInit) => {
+    requests.push({
+      url: input.toString(),
+      headers: (init?.headers ?? {}) as Record<string, string>,
+    });
+    return await handler(input.toString(), init);
+  }) as typeof fetch;
+  return { requests, fetchFn };
+}
+
 /** Creates a temporary metadata directory with Package CRD YAML files. */
 export async function createMetadataFixture(
   plugins: Array<{
@@ -59,7 +74,8 @@ export async function createMetadataFixture(
 
 /**
  * Creates a workspace-like directory structure with metadata, source.json,
- * and plugins-list.yaml. Used for tests that trigger PR OCI URL fetching.
+ * and plugins-list.yaml (listing `pluginPaths`). Used for tests that trigger
+ * PR OCI URL fetching.
  */
 export async function createWorkspaceFixture(
   plugins: Array<{
@@ -68,6 +84,7 @@ export async function createWorkspaceFixture(
     dynamicArtifact: string;
     appConfigExamples?: Record<string, unknown>;
   }>,
+  pluginPaths: string[] = [],
 ): Promise<{ wsDir: string; metadataDir: string }> {
   const wsDir = await fs.mkdtemp(path.join(os.tmpdir(), "workspace-test-"));
   const metadataDir = path.join(wsDir, "metadata");
@@ -83,7 +100,12 @@ export async function createWorkspaceFixture(
     }),
   );
   /* eslint-enable @typescript-eslint/naming-convention */
-  await fs.writeFile(path.join(wsDir, "plugins-list.yaml"), "{}");
+  await fs.writeFile(
+    path.join(wsDir, "plugins-list.yaml"),
+    pluginPaths.length
+      ? yaml.dump(Object.fromEntries(pluginPaths.map((p) => [p, null])))
+      : "{}",
+  );
 
   for (const plugin of plugins) {
     const content: Record<string, unknown> = {
@@ -0,0 +1,183 @@
+/**
+ * Metadata linter tests.
+ * Tests: isValidOciReference, lintPackageDocument, lintMetadataFiles/Directory
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import {
+  formatMetadataIssues,
+  isValidOciReference,
+  lintMetadataDirectory,
+  lintMetadataFiles,
+  lintPackageDocument,
+} from "../metadata-lint.js";
+import { createMetadataFixture } from "./helpers.js";
+
+const ARTIFACT =
+  "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-tech-radar:bs_1.45.3__1.12.0!backstage-community-plugin-tech-radar";
+
+// ── isValidOciReference ──────────────────────────────────────────────────────
+
+describe("isValidOciReference", () => {
+  it("accepts tags, digests, ports and plugin paths", () => {
+    for (const ref of [
+      ARTIFACT,
+      `oci://quay.io/rhdh/plugin@sha256:${"a".repeat(64)}!plugin`,
+      "oci://localhost:5000/plugins/tech-radar:pr_12__1.0.0",
+    ]) {
+      assert.ok(isValidOciReference(ref), ref);
+    }
+  });
+
+  it("rejects references without a tag, with bad characters or a short digest", () => {
+    for (const ref of [
+      "oci://quay.io/rhdh/plugin",
+      "oci://quay.io/rhdh/Plugin:1.0",
+      "oci://quay.io/rhdh/plugin@sha256:abc123",
+      "oci://quay.io//plugin:1.0",
+    ]) {
+      assert.ok(!isValidOciReference(ref), ref);
+    }
+  });
+});
+
+// ── lintPackageDocument ──────────────────────────────────────────────────────
+
+describe("lintPackageDocument", () => {
+  const lint = (spec: Record<string, unknown>) =>
+    lintPackageDocument({ kind: "Package", spec }, "tech-radar.yaml").map(
+      ({ field, message }) => `${field}: ${message}`,
+    );
+
+  it("accepts a valid document", () => {
+    assert.deepStrictEqual(
+      lint({
+        packageName: "@backstage-community/plugin-tech-radar",
+        dynamicArtifact: ARTIFACT,
+        backstage: { role: "frontend-plugin" },
+        appConfigExamples: [{ title: "Default", content: { techRadar: {} } }],
+      }),
+      [],
+    );
+  });
+
+  it("reports missing required fields", () => {
+    assert.deepStrictEqual(lint({}), [
+      "spec.packageName: is required",
+      "spec.dynamicArtifact: is required",
+    ]);
+  });
+
+  it("reports an invalid OCI reference", () => {
+    const [issue] = lint({
+      packageName: "p",
+      dynamicArtifact: "oci://quay.io/rhdh/plugin",
+    });
+    assert.match(issue, /^spec\.dynamicArtifact: .*not a valid OCI reference/);
+  });
+
+  it("accepts a wrapper path and rejects anything else", () => {
+    assert.deepStrictEqual(
+      lint({ packageName: "p", dynamicArtifact: "./dynamic-plugins/dist/p" }),
+      [],
+    );
+    assert.match(
+      lint({ packageName: "p", dynamicArtifact: "quay.io/rhdh/p:1" })[0],
+      /neither an oci:\/\/ reference nor a \.\/ path/,
+    );
+  });
+
+  it("reports an unknown backstage.role", () => {
+    assert.match(
+      lint({
+        packageName: "p",
+        dynamicArtifact: ARTIFACT,
+        backstage: { role: "frontend-plugins" },
+      })[0],
+      /^spec\.backstage\.role: unknown role "frontend-plugins"/,
+    );
+  });
+
+  it("requires appConfigExamples content to be an object", () => {
+    const issues = lint({
+      packageName: "p",
+      dynamicArtifact: ARTIFACT,
+      appConfigExamples: [
+        { content: "techRadar:\n  url: x" },
+        { content: ["a"] },
+        {},
+        { content: "key: [unclosed" },
+      ],
+    });
+    assert.strictEqual(issues.length, 3);
+    assert.strictEqual(
+      issues[0],
+      "spec.appConfigExamples[1].content: must be an object",
+    );
+    assert.strictEqual(
+      issues[1],
+      "spec.appConfigExamples[2].content: must be an object",
+    );
+    assert.match(
+      issues[2],
+      /^spec\.appConfigExamples\[3\]\.content: is not valid YAML/,
+    );
+  });
+});
+
+// ── lintMetadataFiles / lintMetadataDirectory ────────────────────────────────
+
+describe("lintMetadataFiles", () => {
+  it("reports package names declared in more than one file", async () => {
+    const dir = await createMetadataFixture([
+      { name: "a", packageName: "@scope/plugin", dynamicArtifact: ARTIFACT },
+      { name: "b", packageName: "@scope/plugin", dynamicArtifact: ARTIFACT },
+    ]);
+    try {
+      const issues = await lintMetadataDirectory(dir);
+      assert.deepStrictEqual(issues, [
+        {
+          file: path.join(dir, "b.yaml"),
+          field: "spec.packageName",
+          message: `"@scope/plugin" is already declared in ${path.join(dir, "a.yaml")}`,
+        },
+      ]);
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  it("reports unparsable files and files without a Package", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "metadata-lint-"));
+    const broken = path.join(dir, "broken.yaml");
+    const other = path.join(dir, "other.yaml");
+    await fs.writeFile(broken, "spec: [unclosed");
+    await fs.writeFile(other, "kind: ConfigMap\n");
+    try {
+      const issues = await lintMetadataFiles([broken, other]);
+      assert.deepStrictEqual(
+        issues.map(({ file, field }) => [file, field]),
+        [
+          [broken, "(document)"],
+          [other, "kind"],
+        ],
+      );
+      assert.match(
+        formatMetadataIssues(issues),
+        new RegExp(`^${broken}: \\(document\\): is not valid YAML`),
+      );
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  it("rejects a missing directory", async () => {
+    await assert.rejects(
+      lintMetadataDirectory("/nonexistent/metadata"),
+      /Metadata directory not found: \/nonexistent\/metadata/,
+    );
+  });
+});
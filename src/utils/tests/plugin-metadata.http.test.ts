@@ -0,0 +1,323 @@
+/**
+ * Metadata HTTP layer tests — retries, auth, cache, concurrency, and the PR
+ * and nightly flows served from local fixtures instead of GitHub.
+ */
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { MetadataHttpClient, setMetadataHttpClient } from "../metadata-http.js";
+import {
+  fetchDefaultPackages,
+  processPluginsForDeployment,
+} from "../plugin-metadata.js";
+import { withCleanEnv, createWorkspaceFixture, fakeFetch } from "./helpers.js";
+
+const RAW = "https://raw.githubusercontent.com";
+
+// ── MetadataHttpClient ───────────────────────────────────────────────────────
+
+describe("MetadataHttpClient", () => {
+  it("retries 5xx responses and network errors", async () => {
+    let calls = 0;
+    const { fetchFn } = fakeFetch(() => {
+      calls++;
+      if (calls === 1) throw new TypeError("fetch failed");
+      if (calls === 2) return new Response("", { status: 503 });
+      return new Response("ok");
+    });
+    const client = new MetadataHttpClient({
+      fetch: fetchFn,
+      retryDelayMs: 0,
+      cacheDir: false,
+    });
+
+    const response = await client.get("https://example.com/file");
+    assert.strictEqual(response.text, "ok");
+    assert.strictEqual(calls, 3);
+  });
+
+  it("returns 4xx responses without retrying", async () => {
+    const { requests, fetchFn } = fakeFetch(
+      () => new Response("", { status: 404, statusText: "Not Found" }),
+    );
+    const client = new MetadataHttpClient({ fetch: fetchFn, cacheDir: false });
+
+    const response = await client.get("https://example.com/missing");
+    assert.deepStrictEqual(
+      { ok: response.ok, status: response.status, text: response.text },
+      { ok: false, status: 404, text: null },
+    );
+    assert.strictEqual(requests.length, 1);
+  });
+
+  it("gives up on network errors after the configured retries", async () => {
+    const { fetchFn } = fakeFetch(() => {
+      throw new TypeError("fetch failed");
+    });
+    const client = new MetadataHttpClient({
+      fetch: fetchFn,
+      retries: 1,
+      retryDelayMs: 0,
+      cacheDir: false,
+    });
+    await assert.rejects(
+      client.get("https://example.com/file"),
+      /Request to https:\/\/example\.com\/file failed after 2 attempt\(s\)/,
+    );
+  });
+
+  it("sends the token to GitHub hosts only", async () => {
+    const { requests, fetchFn } = fakeFetch(() => new Response("ok"));
+    const client = new MetadataHttpClient({
+      fetch: fetchFn,
+      token: "secret",
+      cacheDir: false,
+    });
+
+    await client.get(`${RAW}/owner/repo/main/file`);
+    await client.get("https://gitlab.example.com/file");
+    assert.deepStrictEqual(
+      requests.map((r) => r.headers.Authorization),
+      ["Bearer secret", undefined],
+    );
+  });
+
+  it("caches successful GitHub files by repo, ref and path", async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "metadata-http-"));
+    const { requests, fetchFn } = fakeFetch((url) =>
+      url.endsWith("missing.json")
+        ? new Response("", { status: 404 })
+        : new Response(url),
+    );
+    const client = new MetadataHttpClient({ fetch: fetchFn, cacheDir });
+
+    try {
+      for (let i = 0; i < 2; i++) {
+        await client.getGitHubFile("owner/repo", "main", "a.json");
+        await client.getGitHubFile("owner/repo", "other", "a.json");
+        await client.getGitHubFile("owner/repo", "main", "missing.json");
+      }
+      const cached = await client.getGitHubFile("owner/repo", "main", "a.json");
+      assert.strictEqual(cached.text, `${RAW}/owner/repo/main/a.json`);
+      assert.deepStrictEqual(
+        requests.map((r) => r.url),
+        [
+          `${RAW}/owner/repo/main/a.json`,
+          `${RAW}/owner/repo/other/a.json`,
+          `${RAW}/owner/repo/main/missing.json`,
+          `${RAW}/owner/repo/main/missing.json`,
+        ],
+      );
+    } finally {
+      await fs.remove(cacheDir);
+    }
+  });
+
+  it("keeps at most `concurrency` calls pending and preserves order", async () => {
+    const client = new MetadataHttpClient({ concurrency: 2, cacheDir: false });
+    let pending = 0;
+    let peak = 0;
+
+    const results = await client.map([30, 10, 20, 0], async (ms) => {
+      peak = Math.max(peak, ++pending);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      pending--;
+      return ms * 2;
+    });
+
+    assert.deepStrictEqual(results, [60, 20, 40, 0]);
+    assert.strictEqual(peak, 2);
+  });
+});
+
+// ── PR and nightly flows against local fixtures ──────────────────────────────
+
+describe("processPluginsForDeployment — fetched from fixtures", () => {
+  const env = withCleanEnv();
+  beforeEach(() => {
+    env.save();
+    delete process.env.E2E_NIGHTLY_MODE;
+    delete process.env.JOB_NAME;
+    delete process.env.GIT_PR_NUMBER;
+    delete process.env.REGISTRY_MIRRORS;
+  });
+  afterEach(() => {
+    env.restore();
+    setMetadataHttpClient();
+  });
+
+  it("resolves PR OCI URLs from each plugin's package.json", async () => {
+    process.env.GIT_PR_NUMBER = "42";
+    const { requests, fetchFn } = fakeFetch((url) => {
+      const plugin = url.match(/plugins\/([^/]+)\/package\.json$/)?.[1];
+      if (!plugin) return new Response("", { status: 404 });
+      return new Response(
+        JSON.stringify({
+          name: `@backstage-community/plugin-${plugin}`,
+          version: plugin === "tekton" ? "3.34.0" : "1.3.0",
+        }),
+      );
+    });
+    setMetadataHttpClient(
+      new MetadataHttpClient({ fetch: fetchFn, cacheDir: false }),
+    );
+
+    const { wsDir, metadataDir } = await createWorkspaceFixture(
+      [
+        {
+          name: "backstage-community-plugin-tekton",
+          packageName: "@backstage-community/plugin-tekton",
+          dynamicArtifact:
+            "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-tekton:bs_1.49.4__3.33.3!backstage-community-plugin-tekton",
+        },
+      ],
+      ["plugins/tekton", "plugins/topology"],
+    );
+
+    try {
+      const result = await processPluginsForDeployment(
+        {
+          plugins: [
+            {
+              package:
+                "./dynamic-plugins/dist/backstage-community-plugin-tekton",
+            },
+          ],
+        },
+        metadataDir,
+      );
+
+      assert.strictEqual(
+        result.plugins![0].package,
+        "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-tekton:pr_42__3.34.0!backstage-community-plugin-tekton",
+      );
+      const workspace = path.basename(wsDir);
+      assert.deepStrictEqual(requests.map((r) => r.url).sort(), [
+        `${RAW}/test/repo/main/workspaces/${workspace}/plugins/tekton/package.json`,
+        `${RAW}/test/repo/main/workspaces/${workspace}/plugins/topology/package.json`,
+      ]);
+    } finally {
+      await fs.remove(wsDir);
+    }
+  });
+
+  it("names the provider, path and URL when a package.json cannot be fetched", async () => {
+    process.env.GIT_PR_NUMBER = "42";
+    const { fetchFn } = fakeFetch(
+      () => new Response("", { status: 404, statusText: "Not Found" }),
+    );
+    setMetadataHttpClient(
+      new MetadataHttpClient({ fetch: fetchFn, cacheDir: false }),
+    );
+    const { wsDir, metadataDir } = await createWorkspaceFixture(
+      [],
+      ["plugins/tekton"],
+    );
+
+    try {
+      await assert.rejects(
+        processPluginsForDeployment({ plugins: [] }, metadataDir),
+        /GitHub test\/repo@main: cannot read workspaces\/[^/]+\/plugins\/tekton\/package\.json: 404 Not Found\n {2}URL: https:\/\/raw\.githubusercontent\.com\/test\/repo\/main\//,
+      );
+    } finally {
+      await fs.remove(wsDir);
+    }
+  });
+
+  it("reads package.json from the provider named in source.json", async () => {
+    process.env.GIT_PR_NUMBER = "42";
+    const { requests, fetchFn } = fakeFetch(
+      () =>
+        new Response(
+          JSON.stringify({
+            name: "@backstage-community/plugin-tekton",
+            version: "3.34.0",
+          }),
+        ),
+    );
+    setMetadataHttpClient(
+      new MetadataHttpClient({ fetch: fetchFn, cacheDir: false }),
+    );
+    const { wsDir, metadataDir } = await createWorkspaceFixture(
+      [
+        {
+          name: "backstage-community-plugin-tekton",
+          packageName: "@backstage-community/plugin-tekton",
+          dynamicArtifact:
+            "./dynamic-plugins/dist/backstage-community-plugin-tekton",
+        },
+      ],
+      ["plugins/tekton"],
+    );
+    /* eslint-disable @typescript-eslint/naming-convention */
+    await fs.writeJson(path.join(wsDir, "source.json"), {
+      repo: "https://code.example.com/team/plugins.git",
+      "repo-ref": "abc123",
+      "repo-flat": true,
+      "repo-provider": "gitlab",
+    });
+    /* eslint-enable @typescript-eslint/naming-convention */
+
+    try {
+      const result = await processPluginsForDeployment(
+        {
+          plugins: [
+            {
+              package:
+                "./dynamic-plugins/dist/backstage-community-plugin-tekton",
+            },
+          ],
+        },
+        metadataDir,
+      );
+
+      assert.strictEqual(
+        result.plugins![0].package,
+        "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-tekton:pr_42__3.34.0!backstage-community-plugin-tekton",
+      );
+      assert.deepStrictEqual(
+        requests.map((r) => r.url),
+        [
+          "https://code.example.com/api/v4/projects/team%2Fplugins/repository/files/plugins%2Ftekton%2Fpackage.json/raw?ref=abc123",
+        ],
+      );
+    } finally {
+      await fs.remove(wsDir);
+    }
+  });
+
+  it("fetches default.packages.yaml for the release branch", async () => {
+    process.env.RELEASE_BRANCH_NAME = "release-1.10";
+    const { requests, fetchFn } = fakeFetch(
+      () =>
+        new Response(
+          [
+            "packages:",
+            "  enabled:",
+            "    - package: '@backstage-community/plugin-tekton'",
+            "  disabled:",
+            "    - package: '@backstage-community/plugin-topology'",
+          ].join("\n"),
+        ),
+    );
+    setMetadataHttpClient(
+      new MetadataHttpClient({ fetch: fetchFn, cacheDir: false }),
+    );
+
+    assert.deepStrictEqual(
+      await fetchDefaultPackages(),
+      new Set([
+        "@backstage-community/plugin-tekton",
+        "@backstage-community/plugin-topology",
+      ]),
+    );
+    assert.deepStrictEqual(
+      requests.map((r) => r.url),
+      [
+        `${RAW}/redhat-developer/rhdh/refs/heads/release-1.10/default.packages.yaml`,
+      ],
+    );
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Resolution trace tests — which rule fired per plugin, and the table rendering.
+ */
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "fs-extra";
+import {
+  formatResolutionTrace,
+  processPluginsForDeployment,
+  type PluginResolutionTrace,
+} from "../plugin-metadata.js";
+import { withCleanEnv, createMetadataFixture } from "./helpers.js";
+
+const TEKTON_OCI =
+  "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-tekton:bs_1.49.4__3.33.3!backstage-community-plugin-tekton";
+const TEKTON_OLD_OCI =
+  "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-tekton:old";
+const TOPOLOGY_OCI =
+  "oci://ghcr.io/redhat-developer/rhdh-plugin-export-overlays/backstage-community-plugin-topology:bs_1.49.4__1.2.0!backstage-community-plugin-topology";
+
+describe("processPluginsForDeployment — resolution trace", () => {
+  const env = withCleanEnv();
+  beforeEach(() => {
+    env.save();
+    delete process.env.E2E_NIGHTLY_MODE;
+    delete process.env.JOB_NAME;
+    delete process.env.GIT_PR_NUMBER;
+    delete process.env.REGISTRY_MIRRORS;
+  });
+  afterEach(() => env.restore());
+
+  it("records the rule and injection for each plugin in local mode", async () => {
+    const metadataDir = await createMetadataFixture([
+      {
+        name: "backstage-community-plugin-tech-radar",
+        packageName: "@backstage-community/plugin-tech-radar",
+        dynamicArtifact:
+          "./dynamic-plugins/dist/backstage-community-plugin-tech-radar",
+        appConfigExamples: { techRadar: {} },
+      },
+      {
+        name: "backstage-community-plugin-tekton",
+        packageName: "@backstage-community/plugin-tekton",
+        dynamicArtifact: TEKTON_OCI,
+      },
+    ]);
+
+    try {
+      const trace: PluginResolutionTrace[] = [];
+      await processPluginsForDeployment(
+        {
+          plugins: [
+            {
+              package:
+                "./dynamic-plugins/dist/backstage-community-plugin-tech-radar-dynamic",
+            },
+            {
+              package:
+                "./dynamic-plugins/dist/backstage-community-plugin-tekton",
+            },
+            { package: "@example/npm-plugin@1.0.0" },
+          ],
+        },
+        metadataDir,
+        undefined,
+        trace,
+      );
+
+      assert.deepStrictEqual(
+        trace.map(({ plugin, mode, rule, configInjected, resolved }) => ({
+          plugin,
+          mode,
+          rule,
+          configInjected,
+          resolved,
+        })),
+        [
+          {
+            plugin: "backstage-community-plugin-tech-radar",
+            mode: "local",
+            rule: "metadata-path",
+            configInjected: true,
+            resolved:
+              "./dynamic-plugins/dist/backstage-community-plugin-tech-radar",
+          },
+          {
+            plugin: "backstage-community-plugin-tekton",
+            mode: "local",
+            rule: "metadata-oci",
+            configInjected: true,
+            resolved: TEKTON_OCI,
+          },
+          {
+            plugin: "npm-plugin",
+            mode: "local",
+            rule: "unchanged",
+            configInjected: false,
+            resolved: "@example/npm-plugin@1.0.0",
+          },
+        ],
+      );
+      assert.ok(trace.every((t) => t.inDefaultPackages === undefined));
+    } finally {
+      await fs.remove(metadataDir);
+    }
+  });
+
+  it("records default.packages.yaml membership and mirroring in nightly mode", async () => {
+    process.env.E2E_NIGHTLY_MODE = "true";
+    process.env.REGISTRY_MIRRORS = JSON.stringify({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      "registry.access.redhat.com/rhdh": "mirror.lab/rhdh",
+    });
+    const metadataDir = await createMetadataFixture([
+      {
+        name: "backstage-community-plugin-tekton",
+        packageName: "@backstage-community/plugin-tekton",
+        dynamicArtifact: TEKTON_OCI,
+      },
+      {
+        name: "backstage-community-plugin-topology",
+        packageName: "@backstage-community/plugin-topology",
+        dynamicArtifact: TOPOLOGY_OCI,
+        appConfigExamples: { topology: {} },
+      },
+    ]);
+
+    try {
+      const trace: PluginResolutionTrace[] = [];
+      await processPluginsForDeployment(
+        {
+          plugins: [{ package: TEKTON_OLD_OCI }, { package: TOPOLOGY_OCI }],
+        },
+        metadataDir,
+        new Set(["@backstage-community/plugin-tekton"]),
+        trace,
+      );
+
+      assert.deepStrictEqual(trace[0], {
+        plugin: "backstage-community-plugin-tekton",
+        input: TEKTON_OLD_OCI,
+        resolved:
+          "oci://mirror.lab/rhdh/backstage-community-plugin-tekton:{{inherit}}",
+        mode: "nightly",
+        rule: "dpdy-inherit",
+        inDefaultPackages: true,
+        configInjected: false,
+        coverage: false,
+        mirrored: true,
+      });
+      assert.strictEqual(trace[1].rule, "metadata-oci");
+      assert.strictEqual(trace[1].inDefaultPackages, false);
+      assert.strictEqual(trace[1].configInjected, true);
+      assert.strictEqual(trace[1].mirrored, false);
+    } finally {
+      await fs.remove(metadataDir);
+    }
+  });
+});
+
+describe("formatResolutionTrace", () => {
+  it("renders aligned rows with a header", () => {
+    const table = formatResolutionTrace([
+      {
+        plugin: "tekton",
+        input: "./dynamic-plugins/dist/tekton",
+        resolved: "./dynamic-plugins/dist/tekton",
+        mode: "local",
+        rule: "metadata-path",
+        configInjected: true,
+        coverage: false,
+        mirrored: false,
+      },
+    ]);
+    assert.strictEqual(
+      table,
+      [
+        "Plugin | Mode  | Rule          | DPDY | Config | Coverage | Mirrored | Input                         | Resolved",
+        "-------|-------|---------------|------|--------|----------|----------|-------------------------------|---------",
+        "tekton | local | metadata-path | -    | yes    | no       | no       | ./dynamic-plugins/dist/tekton | (same)",
+      ].join("\n"),
+    );
+  });
+
+  it("says so when there are no plugins", () => {
+    assert.strictEqual(
+      formatResolutionTrace([]),
+      "No dynamic plugins resolved.",
+    );
+  });
+});